@@ -0,0 +1,273 @@
+import { createServer } from "node:http";
+import { randomInt } from "node:crypto";
+import { acceptWebSocket, type WsConnection } from "./ws.ts";
+import { applyAction, createInitialState, newGame, rematchState, setupOf, type Action } from "../src/game/engine.ts";
+import { viewForRole, viewForSpectator } from "../src/game/redact.ts";
+import { normalizeRevealTurns, RULE_PRESETS } from "../src/game/rules.ts";
+import { normalizeMap, validateMap } from "../src/game/maps.ts";
+import { MAX_CRIMINALS } from "../src/game/criminals.ts";
+import { MAX_UNITS, UNIT_KINDS } from "../src/game/units.ts";
+import { ROADBLOCK_TURN_CHOICES } from "../src/game/roadblocks.ts";
+import { randomSeed } from "../src/game/rng.ts";
+import type { GameState, Role, SpectatorView, UnitKind } from "../src/game/types.ts";
+import { DEFAULT_SERVER_PORT, type ClientMessage, type ServerMessage } from "../src/net/protocol.ts";
+
+/**
+ * オンライン対戦のリファレンスサーバー（ローカルで動かす）
+ * - 部屋ごとに正本の GameState を持ち、操作はブラウザと同じルールエンジンで検証する
+ * - 各端末にはその役割に見せてよい状態だけを送る（viewForRole / 観戦者は viewForSpectator）
+ */
+
+type Room = {
+  code: string;
+  state: GameState;
+  seats: Partial<Record<Role, Player>>;
+  spectators: Set<Player>;
+};
+
+type Player = {
+  conn: WsConnection;
+  room: Room | null;
+  role: Role | null; // 観戦者は null
+  watching: SpectatorView | null;
+};
+
+const ROLES: Role[] = ["POLICE", "CRIMINAL"];
+const SPECTATOR_VIEWS: SpectatorView[] = ["POLICE", "CRIMINAL", "OMNISCIENT"];
+
+// 読み間違えやすい文字（I, O, 0, 1）は使わない
+const CODE_CHARS = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 4;
+
+// 端末から送ってよい操作（AI・受け渡し用の操作は受け付けない）
+const PLAYER_ACTIONS: Action["type"][] = [
+  "TOGGLE_HELI",
+  "TOGGLE_GROUND",
+  "CLEAR_HELIS",
+  "START_FROM_SETUP",
+  "SELECT_HELI",
+  "MOVE_HELI",
+  "SEARCH",
+  "ROADBLOCK",
+  "UNDO",
+  "END_POLICE_TURN",
+  "CRIMINAL_CHOOSE_START",
+  "CRIMINAL_MOVE",
+];
+
+const rooms = new Map<string, Room>();
+
+function newRoomCode() {
+  for (;;) {
+    let code = "";
+    for (let i = 0; i < CODE_LENGTH; i++) code += CODE_CHARS[randomInt(CODE_CHARS.length)];
+    if (!rooms.has(code)) return code;
+  }
+}
+
+function send(p: Player, msg: ServerMessage) {
+  p.conn.send(JSON.stringify(msg));
+}
+
+function sendState(room: Room) {
+  for (const role of ROLES) {
+    const p = room.seats[role];
+    if (p) send(p, { type: "STATE", state: viewForRole(room.state, role) });
+  }
+  for (const p of room.spectators) {
+    if (p.watching) send(p, { type: "STATE", state: viewForSpectator(room.state, p.watching) });
+  }
+}
+
+function notifyOpponent(room: Room, role: Role, present: boolean) {
+  const other = room.seats[role === "POLICE" ? "CRIMINAL" : "POLICE"];
+  if (other) send(other, { type: "OPPONENT", present });
+}
+
+function sit(p: Player, room: Room, role: Role) {
+  room.seats[role] = p;
+  p.room = room;
+  p.role = role;
+  send(p, { type: "JOINED", code: room.code, role });
+  send(p, { type: "OPPONENT", present: room.seats[role === "POLICE" ? "CRIMINAL" : "POLICE"] != null });
+  notifyOpponent(room, role, true);
+  sendState(room);
+}
+
+function watch(p: Player, room: Room, view: SpectatorView) {
+  room.spectators.add(p);
+  p.room = room;
+  p.watching = view;
+  send(p, { type: "WATCHING", code: room.code, view });
+  send(p, { type: "STATE", state: viewForSpectator(room.state, view) });
+}
+
+// 対戦者が2人ともいなくなったら部屋を閉じる（観戦だけでは残さない）
+function leave(p: Player) {
+  const { room, role } = p;
+  if (!room) return;
+  p.room = null;
+  p.role = null;
+  p.watching = null;
+  room.spectators.delete(p);
+  if (role) {
+    delete room.seats[role];
+    notifyOpponent(room, role, false);
+  }
+  if (!room.seats.POLICE && !room.seats.CRIMINAL) rooms.delete(room.code);
+}
+
+// ===== 受け取ったメッセージの形チェック（中身の正しさはルールエンジンが判定） =====
+
+function isObject(x: unknown): x is Record<string, unknown> {
+  return typeof x === "object" && x !== null;
+}
+
+function isPoint(x: unknown) {
+  return isObject(x) && Number.isInteger(x.r) && Number.isInteger(x.c);
+}
+
+function isCriminalCount(x: unknown): x is number {
+  return Number.isInteger(x) && (x as number) >= 1 && (x as number) <= MAX_CRIMINALS;
+}
+
+function isUnits(x: unknown): x is UnitKind[] {
+  return Array.isArray(x) && x.length >= 1 && x.length <= MAX_UNITS && x.every((kind) => UNIT_KINDS.includes(kind as UnitKind));
+}
+
+function isRoadblockTurns(x: unknown): x is number {
+  return ROADBLOCK_TURN_CHOICES.includes(x as number);
+}
+
+function isAction(x: unknown): x is Action {
+  if (!isObject(x) || !PLAYER_ACTIONS.includes(x.type as Action["type"])) return false;
+  if (x.type === "TOGGLE_HELI") return isPoint(x.node);
+  if (x.type === "TOGGLE_GROUND") return isPoint(x.cell);
+  if (x.type === "SELECT_HELI") return Number.isInteger(x.heli);
+  if (x.type === "MOVE_HELI") return Number.isInteger(x.heli) && isPoint(x.to);
+  if (x.type === "SEARCH") return Number.isInteger(x.heli) && isPoint(x.target);
+  if (x.type === "ROADBLOCK") return Number.isInteger(x.heli) && isPoint(x.cell);
+  if (x.type === "CRIMINAL_CHOOSE_START") return isPoint(x.cell);
+  if (x.type === "CRIMINAL_MOVE") return isPoint(x.to);
+  return true;
+}
+
+function parseMessage(text: string): ClientMessage | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!isObject(data)) return null;
+
+  if (data.type === "CREATE") {
+    if (!ROLES.includes(data.role as Role) || typeof data.rulesId !== "string") return null;
+    const seed = Number.isInteger(data.seed) ? (data.seed as number) >>> 0 : undefined;
+    const revealTurns = Array.isArray(data.revealTurns) ? data.revealTurns.filter((t) => Number.isInteger(t)) : undefined;
+    const map = data.map !== undefined ? normalizeMap(data.map) : undefined;
+    if (map === null) return null;
+    const criminalCount = data.criminalCount;
+    if (criminalCount !== undefined && !isCriminalCount(criminalCount)) return null;
+    const units = data.units;
+    if (units !== undefined && !isUnits(units)) return null;
+    const roadblockTurns = data.roadblockTurns;
+    if (roadblockTurns !== undefined && !isRoadblockTurns(roadblockTurns)) return null;
+    return { type: "CREATE", role: data.role as Role, rulesId: data.rulesId, seed, revealTurns, map, criminalCount, units, roadblockTurns };
+  }
+  if (data.type === "JOIN") return typeof data.code === "string" ? { type: "JOIN", code: data.code } : null;
+  if (data.type === "WATCH") {
+    if (typeof data.code !== "string" || !SPECTATOR_VIEWS.includes(data.view as SpectatorView)) return null;
+    return { type: "WATCH", code: data.code, view: data.view as SpectatorView };
+  }
+  if (data.type === "ACTION") return isAction(data.action) ? { type: "ACTION", action: data.action } : null;
+  if (data.type === "REMATCH") return { type: "REMATCH" };
+  return null;
+}
+
+// ===== メッセージごとの処理 =====
+
+function handleMessage(p: Player, msg: ClientMessage) {
+  if (msg.type === "CREATE") {
+    const preset = RULE_PRESETS.find((r) => r.id === msg.rulesId);
+    if (!preset) return send(p, { type: "ERROR", reason: "UNKNOWN_RULES" });
+    // 自作の地図は大きさが合っていて遊べるものだけ受け付ける
+    if (msg.map && (msg.map.size !== preset.size || validateMap(msg.map))) return send(p, { type: "ERROR", reason: "BAD_MESSAGE" });
+    const rules = {
+      ...preset,
+      revealTurns: normalizeRevealTurns(msg.revealTurns ?? [], preset),
+      map: msg.map ?? preset.map,
+      criminalCount: msg.criminalCount ?? preset.criminalCount,
+      units: msg.units ?? preset.units,
+      roadblockTurns: msg.roadblockTurns ?? preset.roadblockTurns,
+    };
+
+    leave(p);
+    const setup = { ...setupOf(createInitialState({ rules })), mode: "ONLINE" as const };
+    const room: Room = { code: newRoomCode(), state: newGame(setup, msg.seed ?? randomSeed()), seats: {}, spectators: new Set() };
+    rooms.set(room.code, room);
+    return sit(p, room, msg.role);
+  }
+
+  if (msg.type === "JOIN") {
+    const room = rooms.get(msg.code.trim().toUpperCase());
+    if (!room) return send(p, { type: "ERROR", reason: "NO_SUCH_ROOM" });
+    if (p.room === room) return;
+
+    const role = ROLES.find((r) => !room.seats[r]);
+    if (!role) return send(p, { type: "ERROR", reason: "ROOM_FULL" });
+
+    leave(p);
+    return sit(p, room, role);
+  }
+
+  if (msg.type === "WATCH") {
+    const room = rooms.get(msg.code.trim().toUpperCase());
+    if (!room) return send(p, { type: "ERROR", reason: "NO_SUCH_ROOM" });
+    // 対戦者が観戦に回るときは席を空ける
+    if (p.room !== room || p.role) leave(p);
+    return watch(p, room, msg.view);
+  }
+
+  const { room, role } = p;
+  if (!room) return send(p, { type: "ERROR", reason: "NOT_IN_ROOM" });
+  // 観戦者は操作できない
+  if (!role) return send(p, { type: "ERROR", reason: "NOT_YOUR_TURN" });
+
+  if (msg.type === "REMATCH") {
+    if (room.state.phase !== "END") return send(p, { type: "ERROR", reason: "WRONG_PHASE" });
+    room.state = rematchState(room.state);
+    return sendState(room);
+  }
+
+  // 送ってきた人の役割で判定する（相手の手番の操作は NOT_YOUR_TURN）
+  const res = applyAction({ ...room.state, viewer: role }, msg.action);
+  if (!res.ok) return send(p, { type: "ERROR", reason: res.reason });
+
+  room.state = res.state;
+  sendState(room);
+}
+
+const port = Number(process.env.PORT ?? DEFAULT_SERVER_PORT);
+
+const server = createServer((_req, res) => {
+  res.writeHead(200, { "Content-Type": "text/plain; charset=utf-8" });
+  res.end("CityChase online server\n");
+});
+
+server.on("upgrade", (req, socket) => {
+  const p: Player = { conn: { send: () => {}, close: () => {} }, room: null, role: null, watching: null };
+  const conn = acceptWebSocket(req, socket, {
+    onMessage: (text) => {
+      const msg = parseMessage(text);
+      if (!msg) return send(p, { type: "ERROR", reason: "BAD_MESSAGE" });
+      handleMessage(p, msg);
+    },
+    onClose: () => leave(p),
+  });
+  if (conn) p.conn = conn;
+});
+
+server.listen(port, () => {
+  console.log(`CityChase server: ws://localhost:${port}`);
+});
@@ -0,0 +1,140 @@
+import { createHash } from "node:crypto";
+import type { IncomingMessage } from "node:http";
+import type { Duplex } from "node:stream";
+
+/**
+ * 最小限の WebSocket（RFC 6455）実装：テキストメッセージ・ping・close だけ
+ * 外部パッケージなしでローカルに立てられるようにしている
+ */
+
+const GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+const MAX_PAYLOAD = 64 * 1024; // ゲームのメッセージはこれで十分
+
+const OP_CONTINUATION = 0x0;
+const OP_TEXT = 0x1;
+const OP_CLOSE = 0x8;
+const OP_PING = 0x9;
+const OP_PONG = 0xa;
+
+export type WsConnection = {
+  send: (text: string) => void;
+  close: () => void;
+};
+
+export type WsHandlers = {
+  onMessage: (text: string) => void;
+  onClose: () => void;
+};
+
+function encodeFrame(opcode: number, payload: Buffer): Buffer {
+  const len = payload.length;
+  let header: Buffer;
+  if (len < 126) {
+    header = Buffer.from([0x80 | opcode, len]);
+  } else if (len < 0x10000) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(len, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(len), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+/**
+ * HTTP の upgrade リクエストを WebSocket 接続にする（不正なリクエストは切断して null）
+ */
+export function acceptWebSocket(req: IncomingMessage, socket: Duplex, handlers: WsHandlers): WsConnection | null {
+  const key = req.headers["sec-websocket-key"];
+  if (typeof key !== "string" || req.headers.upgrade?.toLowerCase() !== "websocket") {
+    socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+    return null;
+  }
+
+  const accept = createHash("sha1").update(key + GUID).digest("base64");
+  socket.write(
+    "HTTP/1.1 101 Switching Protocols\r\n" +
+      "Upgrade: websocket\r\n" +
+      "Connection: Upgrade\r\n" +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  let buffer = Buffer.alloc(0);
+  let fragments: Buffer[] = [];
+  let closed = false;
+
+  function close() {
+    if (closed) return;
+    closed = true;
+    if (socket.writable) socket.end(encodeFrame(OP_CLOSE, Buffer.alloc(0)));
+    handlers.onClose();
+  }
+
+  function send(text: string) {
+    if (closed || !socket.writable) return;
+    socket.write(encodeFrame(OP_TEXT, Buffer.from(text, "utf8")));
+  }
+
+  // 届いたバイト列から完成したフレームを順に取り出す
+  function drain() {
+    while (buffer.length >= 2) {
+      const fin = (buffer[0] & 0x80) !== 0;
+      const opcode = buffer[0] & 0x0f;
+      const masked = (buffer[1] & 0x80) !== 0;
+      let len = buffer[1] & 0x7f;
+      let offset = 2;
+
+      if (len === 126) {
+        if (buffer.length < 4) return;
+        len = buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (len === 127) {
+        if (buffer.length < 10) return;
+        const big = buffer.readBigUInt64BE(2);
+        if (big > BigInt(MAX_PAYLOAD)) return close();
+        len = Number(big);
+        offset = 10;
+      }
+
+      // クライアントからのフレームは必ずマスクされている
+      if (!masked || len > MAX_PAYLOAD) return close();
+      if (buffer.length < offset + 4 + len) return;
+
+      const mask = buffer.subarray(offset, offset + 4);
+      const payload = Buffer.from(buffer.subarray(offset + 4, offset + 4 + len));
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+      buffer = buffer.subarray(offset + 4 + len);
+
+      if (opcode === OP_CLOSE) return close();
+      if (opcode === OP_PING) {
+        socket.write(encodeFrame(OP_PONG, payload));
+        continue;
+      }
+      if (opcode === OP_PONG) continue;
+      if (opcode !== OP_TEXT && opcode !== OP_CONTINUATION) return close();
+
+      fragments.push(payload);
+      if (fragments.reduce((n, f) => n + f.length, 0) > MAX_PAYLOAD) return close();
+      if (!fin) continue;
+
+      const text = Buffer.concat(fragments).toString("utf8");
+      fragments = [];
+      handlers.onMessage(text);
+      if (closed) return;
+    }
+  }
+
+  socket.on("data", (chunk: Buffer) => {
+    if (closed) return;
+    buffer = Buffer.concat([buffer, chunk]);
+    drain();
+  });
+  socket.on("close", close);
+  socket.on("error", close);
+
+  return { send, close };
+}
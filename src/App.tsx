@@ -1,358 +1,135 @@
-import { useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
+import { useEffect, useLayoutEffect, useMemo, useRef, useState, useSyncExternalStore } from "react";
+import type { AiLevel, Cell, CityMap, GameState, LogEvent, Node, Role, RuleSet, SpectatorView, UnitKind } from "./game/types.ts";
+import {
+  allNodes as listNodes,
+  cellName,
+  criminalSteps,
+  isBlocked,
+  keyCell,
+  keyNode,
+  nodeName,
+  sameCell,
+  terrainOf,
+  traceColor,
+} from "./game/board.ts";
+import { applyAction, createInitialState, newGame, rematchState, setupOf, type Action } from "./game/engine.ts";
+import { defaultRevealTurns, openMap, parseRevealTurns, RULE_PRESETS } from "./game/rules.ts";
+import { parseSeed } from "./game/rng.ts";
+import { loadGame, saveGame, STORAGE_KEY } from "./game/persist.ts";
+import { viewForSpectator } from "./game/redact.ts";
+import { announcementsOf, buildReplayFrames } from "./game/replay.ts";
+import { deduceCriminals } from "./game/deduce.ts";
+import { criminalsAt, mergedVisits, MAX_CRIMINALS, nextCriminal, revealedVisits, visitorsOf } from "./game/criminals.ts";
+import { criminalMoveRisks } from "./game/ai.ts";
+import { recordOf } from "./game/stats.ts";
+import { addGameRecord } from "./game/statsDb.ts";
+import { loadSavedMaps, saveMaps } from "./game/savedMaps.ts";
+import { TERRAINS } from "./game/maps.ts";
+import {
+  airUnitAt,
+  closedCells,
+  groundUnitAt,
+  MAX_UNITS,
+  nextUnitKind,
+  onCell,
+  roadblockCells,
+  UNIT_KINDS,
+  unitMoves,
+  unitSearchCells,
+} from "./game/units.ts";
+import { activeRoadblocks, ROADBLOCK_TURN_CHOICES, roadblockTurnsLeft } from "./game/roadblocks.ts";
+import ReplayControls from "./ReplayControls.tsx";
+import SeriesScoreboard from "./SeriesScoreboard.tsx";
+import BoardGrid from "./BoardGrid.tsx";
+import StatsScreen from "./StatsScreen.tsx";
+import MapEditor from "./MapEditor.tsx";
+import MapRoads from "./MapRoads.tsx";
+import TerrainBadge from "./TerrainBadge.tsx";
+import { createSeries, SERIES_LENGTHS, seriesWinner } from "./game/series.ts";
+import { connectOnline, type OnlineConnection } from "./net/online.ts";
+import type { ClientMessage, ServerErrorReason, ServerMessage } from "./net/protocol.ts";
+import { handoffText, LANGS, loadLang, MESSAGES, saveLang, type Lang } from "./i18n/index.ts";
+import { loadFeedbackSettings, saveFeedbackSettings, type FeedbackSettings } from "./feedback/settings.ts";
+import { cueOf, playCue } from "./feedback/cues.ts";
+import FeedbackSettingsPanel from "./FeedbackSettingsPanel.tsx";
 
-type Role = "POLICE" | "CRIMINAL";
-type Mode = "SINGLE" | "PASS_PLAY";
-
-type Phase =
-  | "ROLE_SELECT"
-  | "POLICE_SETUP"
-  | "POLICE_TURN"
-  | "CRIMINAL_AI_MOVING"
-  | "CRIMINAL_HIDE"
-  | "POLICE_AI_TURN"
-  | "CRIMINAL_MOVE"
-  | "END";
-
-type Viewer = "POLICE" | "CRIMINAL";
-
-type Cell = { r: number; c: number }; // 0..4
-type Node = { r: number; c: number }; // 0..3
-
-type SearchMark = { turn: number; target: Cell; heliIndex: number };
-
-const GRID = 5;
-const NODE = 4;
-const MAX_TURN = 11;
-const ACTIONS_PER_TURN = 3;
 const ROAD_GAP = 22;
 
-function keyCell(c: Cell) {
-  return `${c.r},${c.c}`;
-}
-function keyNode(n: Node) {
-  return `${n.r},${n.c}`;
-}
-
-function inBoundsCell(c: Cell) {
-  return c.r >= 0 && c.r < GRID && c.c >= 0 && c.c < GRID;
-}
-function neighborsCell(c: Cell): Cell[] {
-  return [
-    { r: c.r - 1, c: c.c },
-    { r: c.r + 1, c: c.c },
-    { r: c.r, c: c.c - 1 },
-    { r: c.r, c: c.c + 1 },
-  ].filter(inBoundsCell);
-}
-
-function inBoundsNode(n: Node) {
-  return n.r >= 0 && n.r < NODE && n.c >= 0 && n.c < NODE;
-}
-function neighborsNode(n: Node): Node[] {
-  return [
-    { r: n.r - 1, c: n.c },
-    { r: n.r + 1, c: n.c },
-    { r: n.r, c: n.c - 1 },
-    { r: n.r, c: n.c + 1 },
-  ].filter(inBoundsNode);
-}
-
-function surroundingCells(node: Node): Cell[] {
-  const { r, c } = node;
-  return [
-    { r, c },
-    { r, c: c + 1 },
-    { r: r + 1, c },
-    { r: r + 1, c: c + 1 },
-  ];
-}
-
-function traceColor(visitTurn: number) {
-  if (visitTurn === 1) return "gold";
-  if (visitTurn === 6) return "orange";
-  return "gray";
-}
+const AI_LEVELS: AiLevel[] = ["EASY", "NORMAL", "HARD"];
 
-function pickRandom<T>(arr: readonly T[]): T {
-  return arr[Math.floor(Math.random() * arr.length)];
-}
-function randomCell(): Cell {
-  return { r: Math.floor(Math.random() * GRID), c: Math.floor(Math.random() * GRID) };
-}
+// タイトル画面のAIの強さ選択（ソロで相手になるAIごと：見出しと説明はメッセージカタログのキー）
+const AI_LEVEL_SETTINGS = [
+  { key: "policeAiLevel", label: "policeAi", notes: "policeAiNotes" },
+  { key: "criminalAiLevel", label: "criminalAi", notes: "criminalAiNotes" },
+] as const;
 
 function getHeliColor(index: number) {
   if (index === 0) return "#22c55e";
   if (index === 1) return "#ef4444";
-  return "#facc15";
+  if (index === 2) return "#facc15";
+  return "#a855f7";
 }
 
-function cellCenterPct(c: Cell) {
-  const x = ((c.c + 0.5) / GRID) * 100;
-  const y = ((c.r + 0.5) / GRID) * 100;
-  return { x, y };
-}
+// 部隊の種類ごとの絵（色は番号ごとの getHeliColor）
+const UNIT_ICONS: Record<UnitKind, string> = { HELI: "🚁", DRONE: "🛸", GROUND: "🚓" };
 
-function manhattanCell(a: Cell, b: Cell) {
-  return Math.abs(a.r - b.r) + Math.abs(a.c - b.c);
+// 複数犯人モードの犯人ごとの色（ルート・痕跡の印・公開位置）
+function getCriminalColor(index: number) {
+  if (index === 0) return "#f97316";
+  if (index === 1) return "#ec4899";
+  return "#06b6d4";
 }
 
-function uniqueRandomNodes(count: number): Node[] {
-  const all: Node[] = [];
-  for (let r = 0; r < NODE; r++) for (let c = 0; c < NODE; c++) all.push({ r, c });
-  const picked: Node[] = [];
-  const used = new Set<string>();
-  while (picked.length < count && picked.length < all.length) {
-    const n = pickRandom(all);
-    const k = keyNode(n);
-    if (used.has(k)) continue;
-    used.add(k);
-    picked.push(n);
-  }
-  return picked;
+function cellCenterPct(c: Cell, size: number) {
+  const x = ((c.c + 0.5) / size) * 100;
+  const y = ((c.r + 0.5) / size) * 100;
+  return { x, y };
 }
 
-/**
- * 犯人AI（詰み回避・待機なし）
- */
-function criminalAiNextMoveNoStuck(current: Cell, visits: Record<string, number[]>, currentTurn: number) {
-  const visited = new Set(Object.keys(visits));
-  const remainingMoves = MAX_TURN - currentTurn;
-
-  const nextCandidates = neighborsCell(current).filter((n) => !visited.has(keyCell(n)));
-  if (nextCandidates.length === 0) {
-    return { next: current, stuck: true as const };
-  }
-
-  function canFinishFrom(pos: Cell, stepsLeft: number, visitedSet: Set<string>): boolean {
-    if (stepsLeft <= 0) return true;
-
-    const neigh = neighborsCell(pos).filter((n) => !visitedSet.has(keyCell(n)));
-    if (neigh.length === 0) return false;
-
-    neigh.sort((a, b) => {
-      const da = neighborsCell(a).filter((x) => !visitedSet.has(keyCell(x))).length;
-      const db = neighborsCell(b).filter((x) => !visitedSet.has(keyCell(x))).length;
-      return da - db;
-    });
-
-    for (const n of neigh) {
-      const k = keyCell(n);
-      visitedSet.add(k);
-      if (canFinishFrom(n, stepsLeft - 1, visitedSet)) return true;
-      visitedSet.delete(k);
-    }
-    return false;
-  }
-
-  const safeMoves: Cell[] = [];
-  for (const cand of nextCandidates) {
-    const tmp = new Set(visited);
-    tmp.add(keyCell(cand));
-    if (canFinishFrom(cand, remainingMoves - 1, tmp)) safeMoves.push(cand);
-  }
-
-  const pickFrom = safeMoves.length > 0 ? safeMoves : nextCandidates;
+// ヘリの移動アニメーションの長さ（警察AIの1手の間隔より短く）
+const HELI_MOVE_MS = 450;
+// END の犯人ルートを1手ずつ描く間隔
+const ROUTE_STEP_MS = 350;
 
-  const center: Cell = { r: 2, c: 2 };
-  pickFrom.sort((a, b) => {
-    const ea = neighborsCell(a).filter((x) => !visited.has(keyCell(x))).length;
-    const eb = neighborsCell(b).filter((x) => !visited.has(keyCell(x))).length;
-    const ca = 1 / (1 + manhattanCell(a, center));
-    const cb = 1 / (1 + manhattanCell(b, center));
-    return eb * 10 + cb - (ea * 10 + ca);
-  });
+// OS の「動きを減らす」設定（途中で変わっても追従する）
+const REDUCED_MOTION_QUERY = "(prefers-reduced-motion: reduce)";
 
-  return { next: pickFrom[0], stuck: false as const };
+function subscribeReducedMotion(onChange: () => void) {
+  const mq = window.matchMedia(REDUCED_MOTION_QUERY);
+  mq.addEventListener("change", onChange);
+  return () => mq.removeEventListener("change", onChange);
 }
 
-function buildHeat(currentTurn: number, visits: Record<string, number[]>, revealed: Record<string, boolean>): number[][] {
-  const heat: number[][] = Array.from({ length: GRID }, () => Array.from({ length: GRID }, () => 0.0001));
-
-  const traces: { cell: Cell; t: number }[] = [];
-  for (const k of Object.keys(revealed)) {
-    if (!revealed[k]) continue;
-    const v = visits[k];
-    if (!v || v.length === 0) continue;
-    const t = Math.min(...v);
-    const [r, c] = k.split(",").map((x) => parseInt(x, 10));
-    traces.push({ cell: { r, c }, t });
-  }
-
-  if (traces.length === 0) {
-    for (let r = 0; r < GRID; r++) for (let c = 0; c < GRID; c++) heat[r][c] = 1;
-    return heat;
-  }
-
-  const maxT = Math.max(...traces.map((x) => x.t));
-
-  for (let r = 0; r < GRID; r++) {
-    for (let c = 0; c < GRID; c++) {
-      let score = 1.0;
-      const p: Cell = { r, c };
-
-      for (const tr of traces) {
-        const delta = Math.max(0, currentTurn - tr.t);
-        const d = manhattanCell(p, tr.cell);
-
-        if (d > delta) {
-          score *= 0.02;
-          continue;
-        }
-
-        const freshness = 1 + (tr.t / Math.max(1, maxT)) * 1.5;
-        const closeness = Math.exp(-Math.abs(delta - d) / (1.2 / freshness));
-        score *= 0.15 + 0.85 * closeness;
-      }
-
-      heat[r][c] = score;
-    }
-  }
-
-  let mx = 0;
-  for (let r = 0; r < GRID; r++) for (let c = 0; c < GRID; c++) mx = Math.max(mx, heat[r][c]);
-  if (mx > 0) {
-    for (let r = 0; r < GRID; r++) for (let c = 0; c < GRID; c++) heat[r][c] /= mx;
-  }
-  return heat;
+function prefersReducedMotion() {
+  return window.matchMedia(REDUCED_MOTION_QUERY).matches;
 }
 
-function traceAdjBonus(
-  c: Cell,
-  visits: Record<string, number[]>,
-  revealed: Record<string, boolean>
-): number {
-  let best = 0;
-
-  for (const k of Object.keys(revealed)) {
-    if (!revealed[k]) continue;
-
-    const turns = visits[k];
-    if (!turns || turns.length === 0) continue;
-
-    const t = Math.min(...turns); // その痕跡が示すターン（あなたの実装では最小）
-    const [r, cc] = k.split(",").map((x) => parseInt(x, 10));
-    const tr: Cell = { r, c: cc };
-
-    // 痕跡の隣接（上下左右）だけを加点
-    if (manhattanCell(c, tr) !== 1) continue;
-
-    // ★重み：6ターン目（オレンジ）を最優先、1ターン目（黄色）も強め、その他は弱め
-    const w = t === 6 ? 1.0 : t === 1 ? 0.65 : 0.25;
-
-    best = Math.max(best, w);
-  }
-
-  return best; // 0〜1.0
-}
-
-
-
-function bestCellByHeat(heat: number[][]): Cell {
-  let best: Cell = { r: 0, c: 0 };
-  let bestV = -1;
-  for (let r = 0; r < GRID; r++) {
-    for (let c = 0; c < GRID; c++) {
-      const v = heat[r][c] + Math.random() * 0.002;
-      if (v > bestV) {
-        bestV = v;
-        best = { r, c };
-      }
-    }
-  }
-  return best;
-}
-
-function bestSearchTarget(
-  node: Node,
-  heat: number[][],
-  searched: Record<string, boolean>,
-  revealed: Record<string, boolean>,
-  visits: Record<string, number[]>
-): Cell {
-  const cand = surroundingCells(node);
-
-  // 痕跡セル（過去に居た確定）は「犯人が今いない」ので捜索候補から外す
-  const filtered = cand.filter((c) => !revealed[keyCell(c)]);
-  const useCand = filtered.length > 0 ? filtered : cand; // 念のため
-
-  const scored = useCand.map((c) => {
-    const k = keyCell(c);
-
-    const hs = heat[c.r][c.c];                 // 既存の確率分布
-    const ns = searched[k] ? 0 : 1;            // 未捜索を優先
-
-    // 係数は好みで調整可：まずはこのくらいが追跡っぽい
-    const adj = traceAdjBonus(c, visits, revealed);
-    const score = hs * 1.4 + ns * 0.9 + adj * 2.8 + Math.random() * 0.01;
-
-
-    return { c, score };
-  });
+// 盤面のキーボード操作：矢印キーで動かす向き
+const ARROW_STEPS: Record<string, { r: number; c: number }> = {
+  ArrowUp: { r: -1, c: 0 },
+  ArrowDown: { r: 1, c: 0 },
+  ArrowLeft: { r: 0, c: -1 },
+  ArrowRight: { r: 0, c: 1 },
+};
 
-  scored.sort((a, b) => b.score - a.score);
-  return scored[0].c;
+// ?spectate=local で開いた別ウィンドウは、この端末の対戦を観戦する
+function initialSpectator(): { source: "LOCAL" | "ONLINE"; view: SpectatorView } | null {
+  return new URLSearchParams(window.location.search).get("spectate") === "local" ? { source: "LOCAL", view: "POLICE" } : null;
 }
 
-
-/**
- * ヘリが重ならないように移動先を選ぶ（occupied を避ける）
- */
-function bestMoveNodeTowardAvoidOccupied(node: Node, target: Cell, occupied: Set<string>): Node {
-  const neigh = neighborsNode(node).filter((n) => !occupied.has(keyNode(n)));
-  if (neigh.length === 0) return node;
-
-  let best = neigh[0];
-  let bestD = Number.POSITIVE_INFINITY;
-  for (const n of neigh) {
-    const around = surroundingCells(n);
-    const d = Math.min(...around.map((a) => manhattanCell(a, target)));
-    if (d < bestD) {
-      bestD = d;
-      best = n;
-    }
-  }
-  return best;
+// 盤面が大きいときは道路を細くする（5x5 で 22px）
+function roadGapFor(size: number) {
+  return Math.round((ROAD_GAP * 5) / Math.max(5, size));
 }
 
 
-type GameState = {
-  mode: Mode;
-  role: Role | null; // SINGLE時：プレイヤーの役割 / PASS時：null
-  viewer: Viewer; // PASS時：いま端末を見ている人
-  phase: Phase;
-
-  turn: number;
-
-  helicopters: Node[];
-  selectedHeli: number | null;
-  actionsLeft: number;
-  heliActed: boolean[];
-
-  criminalPos: Cell | null;
-  visits: Record<string, number[]>;
-  revealed: Record<string, boolean>;
-  searched: Record<string, boolean>;
-  criminalPath: Cell[];
-
-  // ✅ 「直前の警察AIの捜索」3つを残す
-  lastPoliceSearches: SearchMark[];
-
-  policeAiThinking: boolean;
-
-  criminalMoving: boolean;
-  moveWaitSec: 5 | 10 | 15;
-
-  winner: "POLICE" | "CRIMINAL" | null;
-
-  handoff: { show: boolean; to: Viewer; message: string };
-};
-
 export default function App() {
   const aiTimersRef = useRef<number[]>([]);
   const aiRunningRef = useRef(false);
 
   const boardRef = useRef<HTMLDivElement | null>(null);
   const [boardPx, setBoardPx] = useState(0);
+  const reduceMotion = useSyncExternalStore(subscribeReducedMotion, prefersReducedMotion);
 
   useLayoutEffect(() => {
     const el = boardRef.current;
@@ -373,50 +150,134 @@ export default function App() {
     aiTimersRef.current = [];
   }
 
-  // ★捜索モード（true=捜索、false=移動）
-  const [policeSearchMode, setPoliceSearchMode] = useState(false);
+  // 画面の言語（タイトル画面で切り替え・次回も同じ言語で開く）
+  const [lang, setLang] = useState<Lang>(loadLang);
+  const t = MESSAGES[lang];
 
-  const [state, setState] = useState<GameState>(() => ({
-    mode: "SINGLE",
-    role: null,
-    viewer: "POLICE",
-    phase: "ROLE_SELECT",
+  useEffect(() => {
+    document.documentElement.lang = lang;
+  }, [lang]);
 
-    turn: 1,
+  function chooseLang(next: Lang) {
+    saveLang(next);
+    setLang(next);
+  }
 
-    helicopters: [],
-    selectedHeli: null,
-    actionsLeft: ACTIONS_PER_TURN,
-    heliActed: [false, false, false],
+  // 効果音と振動の設定（タイトル画面で変更・次回も同じ設定で開く）
+  const [feedback, setFeedback] = useState<FeedbackSettings>(loadFeedbackSettings);
 
-    criminalPos: null,
-    visits: {},
-    revealed: {},
-    searched: {},
-    criminalPath: [],
+  function chooseFeedback(next: FeedbackSettings) {
+    saveFeedbackSettings(next);
+    setFeedback(next);
+  }
 
-    lastPoliceSearches: [],
+  // ★警察の操作モード（移動・捜索・ロードブロック）
+  const [policeMode, setPoliceMode] = useState<"MOVE" | "SEARCH" | "ROADBLOCK">("MOVE");
 
-    policeAiThinking: false,
+  // ===== 観戦（ローカル：別ウィンドウで保存データを追いかける / オンライン：サーバーから届く） =====
+  const [spectator, setSpectator] = useState(initialSpectator);
 
-    criminalMoving: false,
-    moveWaitSec: 5,
+  // リロード時は保存済みの対戦から再開（AIフェーズ・交代画面も下の effect で続きから動く）
+  const [state, setState] = useState<GameState>(() => {
+    if (spectator) return viewForSpectator(loadGame() ?? createInitialState(), spectator.view);
+    return loadGame() ?? createInitialState();
+  });
+  const isSpectator = state.viewer === "SPECTATOR";
 
-    winner: null,
+  // タイトル画面から開く成績画面
+  const [showStats, setShowStats] = useState(false);
 
-    handoff: { show: false, to: "POLICE", message: "" },
-  }));
+  // タイトル画面から開く地図エディタと、この端末に保存した地図
+  const [showMapEditor, setShowMapEditor] = useState(false);
+  const [savedMaps, setSavedMaps] = useState<CityMap[]>(loadSavedMaps);
 
-  const allNodes = useMemo(() => {
-    const a: Node[] = [];
-    for (let r = 0; r < NODE; r++) for (let c = 0; c < NODE; c++) a.push({ r, c });
-    return a;
-  }, []);
-  const allCells = useMemo(() => {
-    const a: Cell[] = [];
-    for (let r = 0; r < GRID; r++) for (let c = 0; c < GRID; c++) a.push({ r, c });
-    return a;
-  }, []);
+  // タイトル画面のシード入力（空ならランダム）
+  const [seedInput, setSeedInput] = useState("");
+
+  // タイトル画面の位置公開ターンの入力（null なら位置公開ルールなし）
+  const [revealInput, setRevealInput] = useState<string | null>(() =>
+    state.rules.revealTurns.length > 0 ? state.rules.revealTurns.join(", ") : null
+  );
+
+  // タイトル画面のシリーズ試合数（1 ならシリーズなし）
+  const [seriesLength, setSeriesLength] = useState(1);
+
+  // ===== オンライン対戦（状態の正本はサーバー。ここには自分に見えている分だけ届く） =====
+  const onlineRef = useRef<OnlineConnection | null>(null);
+  // error はサーバーの拒否理由（表示するときに今の言語の文言にする）
+  const [online, setOnline] = useState<{ code: string | null; opponent: boolean; error: ServerErrorReason | "DISCONNECTED" | null } | null>(null);
+  const [roomCodeInput, setRoomCodeInput] = useState("");
+
+  const rules = state.rules;
+  const allNodes = useMemo(() => listNodes(rules), [rules]);
+
+  // ===== END画面のリプレイ（null=最終盤面） =====
+  const [replayIndex, setReplayIndex] = useState<number | null>(null);
+  const replayFrames = useMemo(() => (state.phase === "END" ? buildReplayFrames(state.log, state.rules.criminalCount) : []), [state.phase, state.log, state.rules.criminalCount]);
+  const replayFrame = replayIndex != null ? replayFrames[replayIndex] ?? null : null;
+
+  // 盤面の描画に使う状態（リプレイ中はそのコマで置き換える）
+  const view: GameState = replayFrame
+    ? {
+        ...state,
+        turn: replayFrame.turn,
+        helicopters: replayFrame.helicopters,
+        criminals: replayFrame.criminals,
+        revealed: replayFrame.revealed,
+        searched: replayFrame.searched,
+        // ロードブロックはログから求めるので、そのコマまでのログにする
+        log: state.log.slice(0, replayIndex! + 1),
+        heliActed: replayFrame.helicopters.map(() => false),
+        selectedHeli:
+          replayFrame.event.kind === "HELI_MOVE" || replayFrame.event.kind === "SEARCH" ? replayFrame.event.heli : null,
+      }
+    : state;
+
+  // ===== 推理オーバーレイ（人間の警察だけ：犯人がいる可能性のある場所を色の濃さで表示） =====
+  const [showDeduction, setShowDeduction] = useState(false);
+  const canDeduce = state.phase === "POLICE_TURN" && state.viewer === "POLICE" && !state.handoff.show;
+  const { turn, log, criminals } = state;
+  const deduction = useMemo(
+    () => (showDeduction && canDeduce ? deduceCriminals({ rules, turn, log, criminals }) : null),
+    [showDeduction, canDeduce, rules, turn, log, criminals]
+  );
+  const deductionMax = useMemo(() => (deduction ? Math.max(0, ...deduction.endCount.flat()) : 0), [deduction]);
+
+  // ===== 位置公開ルール：公開された犯人の位置（リプレイ中はそのコマまで） =====
+  const announcements = useMemo(() => announcementsOf(state.log), [state.log]);
+  const shownAnnouncements = new Map(announcements.filter((a) => a.turn <= view.turn).map((a) => [keyCell(a.cell), a]));
+  const latestAnnouncement = announcements.length > 0 ? announcements[announcements.length - 1] : null;
+  const nextRevealTurn = rules.revealTurns.find((t) => t > state.turn) ?? null;
+
+  // ===== ロードブロック：効いているものをカウントダウン付きで表示（リプレイ中はそのコマ） =====
+  const shownRoadblocks = new Map(activeRoadblocks(view.log, view.turn).map((rb) => [keyCell(rb.cell), rb]));
+
+  // ===== 逃走ヒント（人間の犯人だけ：移動できる各ビルが次の警察ターンに捜索されうるか・行き止まりか） =====
+  const [showEscapeHints, setShowEscapeHints] = useState(false);
+  const canHint = state.phase === "CRIMINAL_MOVE" && state.viewer === "CRIMINAL" && !state.handoff.show;
+  // 複数犯人モードでは今動かす犯人（mover）のヒント
+  const mover = nextCriminal(state);
+  const moverState = mover != null ? criminals[mover] : null;
+  const { helicopters, heliKinds } = state;
+  const escapeRisks = useMemo(() => {
+    if (!showEscapeHints || !canHint || !moverState?.pos) return null;
+    const risks = criminalMoveRisks({ rules, turn, log, visits: moverState.visits, helicopters, heliKinds }, moverState.pos);
+    return new Map(risks.map((risk) => [keyCell(risk.cell), risk]));
+  }, [showEscapeHints, canHint, moverState, rules, turn, log, helicopters, heliKinds]);
+
+  // 犯人が入れないビル（地上部隊のいるビル・効いているロードブロック）
+  const closedSet = useMemo(() => closedCells({ helicopters, heliKinds, log, turn }), [helicopters, heliKinds, log, turn]);
+
+  const multiCriminal = rules.criminalCount > 1;
+  const criminalLabel = (i: number) => (multiCriminal ? t.game.criminalName(i + 1) : t.roles.CRIMINAL);
+  // 部隊は「ヘリ1」「地上部隊2」のように種類と番号で呼ぶ
+  const unitLabel = (i: number) => t.units.label(t.units.names[view.heliKinds[i]], i + 1);
+  // 「ヘリ2・地上部隊1」のように種類ごとの数でまとめる
+  const unitsSummary = (units: readonly UnitKind[]) =>
+    t.units.list(UNIT_KINDS.flatMap((kind) => {
+      const n = units.filter((u) => u === kind).length;
+      return n > 0 ? [[t.units.names[kind], n] as [string, number]] : [];
+    }));
 
   // ボタンのベーススタイル
   const baseButtonStyle: React.CSSProperties = {
@@ -438,323 +299,350 @@ export default function App() {
   };
 
   useEffect(() => {
-    return () => clearAiTimers();
+    return () => {
+      clearAiTimers();
+      onlineRef.current?.close();
+    };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // 状態が変わるたびに保存（観戦ウィンドウは読むだけ）
+  useEffect(() => {
+    if (state.viewer === "SPECTATOR") return;
+    saveGame(state);
+  }, [state]);
+
+  // 効果音と振動：ログに増えた出来事（最後の1つだけ）・交代画面・犯人AIの移動待ちで鳴らす
+  const cueRef = useRef({ logLength: state.log.length, handoff: state.handoff.show, phase: state.phase });
+  useEffect(() => {
+    const prev = cueRef.current;
+    cueRef.current = { logLength: state.log.length, handoff: state.handoff.show, phase: state.phase };
+
+    const cues = state.log.length > prev.logLength ? state.log.slice(prev.logLength).map(cueOf) : [];
+    const last = cues.filter((c) => c != null).pop();
+    if (last) playCue(last, feedback);
+    if (state.handoff.show && !prev.handoff && state.viewer !== "SPECTATOR") playCue("HANDOFF", feedback);
+    if (state.phase === "CRIMINAL_AI_MOVING" && prev.phase !== "CRIMINAL_AI_MOVING") playCue("AI_WAIT", feedback);
+  }, [state.log, state.handoff.show, state.phase, state.viewer, feedback]);
+
+  // 対戦が終わったら成績に残す（観戦ウィンドウは残さない・リロードしても二重に残さない）
+  const recordingRef = useRef(false);
+  useEffect(() => {
+    if (state.viewer === "SPECTATOR" || state.statsRecorded || recordingRef.current) return;
+    const record = recordOf(state);
+    if (!record) return;
+
+    recordingRef.current = true;
+    addGameRecord(record)
+      .catch(() => {
+        // IndexedDB が使えないときは残さない
+      })
+      .finally(() => {
+        recordingRef.current = false;
+        setState((s) => (s.phase === "END" && s.seed === record.seed ? { ...s, statsRecorded: true } : s));
+      });
+  }, [state]);
+
+  // ローカル観戦：対戦しているウィンドウが保存するたびに取り込む
+  useEffect(() => {
+    if (spectator?.source !== "LOCAL") return;
+    const view = spectator.view;
+    const onStorage = (e: StorageEvent) => {
+      if (e.key !== STORAGE_KEY) return;
+      const saved = loadGame();
+      if (saved) setState(viewForSpectator(saved, view));
+    };
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, [spectator]);
+
   const isTablet = window.innerWidth >= 768 && window.innerWidth <= 1024;
 
+  // ===== キーボード操作：盤面のフォーカス位置（マスと交差点は同じ r, c で行き来する） =====
+  const [cursor, setCursor] = useState<Cell>({ r: 0, c: 0 });
+  const [keyboardFocus, setKeyboardFocus] = useState(false);
+  // 交差点を選ぶ場面（ヘリ配置・移動モード）は交差点、それ以外はマスを動く
+  // 地上部隊はビルにいるので、地上部隊だけ置き残したとき・地上部隊を選んでいるときはマス
+  const selectedGround = state.selectedHeli != null && onCell(state.heliKinds[state.selectedHeli]);
+  const groundSetup = nextUnitKind(state, false) == null && state.rules.units.some(onCell);
+  const cursorLayer: "CELL" | "NODE" =
+    (state.phase === "POLICE_SETUP" && !groundSetup) || (state.phase === "POLICE_TURN" && policeMode === "MOVE" && !selectedGround) ? "NODE" : "CELL";
+  const cursorMax = cursorLayer === "CELL" ? rules.size - 1 : rules.size - 2;
+  const focusAt: Cell = { r: Math.min(cursor.r, cursorMax), c: Math.min(cursor.c, cursorMax) };
+  const focusId = `board-${cursorLayer === "CELL" ? "cell" : "node"}-${focusAt.r}-${focusAt.c}`;
+
+  // キーボードで動かしたときだけ、フォーカスを盤面の要素に移す
+  useEffect(() => {
+    if (!keyboardFocus) return;
+    document.getElementById(focusId)?.focus();
+  }, [keyboardFocus, focusId]);
+
+  // ルールエンジンに操作を渡す（不正な操作は無視）
+  // オンライン対戦ではサーバーに送り、検証済みの状態が返ってくるのを待つ
+  function dispatch(action: Action) {
+    if (state.viewer === "SPECTATOR") return;
+    if (state.mode === "ONLINE") {
+      onlineRef.current?.send({ type: "ACTION", action });
+      return;
+    }
+    setState((s) => {
+      const res = applyAction(s, action);
+      return res.ok ? res.state : s;
+    });
+  }
+
   function reset() {
     clearAiTimers();
-    setPoliceSearchMode(false);
-    setState({
-      mode: "SINGLE",
-      role: null,
-      viewer: "POLICE",
-      phase: "ROLE_SELECT",
-      turn: 1,
-      helicopters: [],
-      selectedHeli: null,
-      actionsLeft: ACTIONS_PER_TURN,
-      heliActed: [false, false, false],
-      criminalPos: null,
-      visits: {},
-      revealed: {},
-      searched: {},
-      criminalPath: [],
-      lastPoliceSearches: [],
-      policeAiThinking: false,
-      criminalMoving: false,
-      moveWaitSec: 5,
-      winner: null,
-      handoff: { show: false, to: "POLICE", message: "" },
-    });
+    leaveOnline();
+    setSpectator(null);
+    setPoliceMode("MOVE");
+    setReplayIndex(null);
+    setState((s) => createInitialState(setupOf(s)));
   }
 
   function rematch() {
     clearAiTimers();
-    setPoliceSearchMode(false);
-
-    setState((s) => {
-      // PASS_PLAY（友達対戦）：そのまま対戦を最初から（警察セットアップへ）
-      if (s.mode === "PASS_PLAY") {
-        return {
-          ...s,
-          mode: "PASS_PLAY",
-          role: null,
-          viewer: "POLICE",
-          phase: "POLICE_SETUP",
-          turn: 1,
-          helicopters: [],
-          selectedHeli: null,
-          actionsLeft: ACTIONS_PER_TURN,
-          heliActed: [false, false, false],
-          criminalPos: null,
-          visits: {},
-          revealed: {},
-          searched: {},
-          criminalPath: [],
-          lastPoliceSearches: [],
-          policeAiThinking: false,
-          criminalMoving: false,
-          moveWaitSec: 5,
-          winner: null,
-          handoff: { show: false, to: "POLICE", message: "" },
-        };
-      }
-
-      // SINGLE：直前の role があるならそれで再戦
-      if (s.mode === "SINGLE" && s.role) {
-        const role = s.role;
-
-        // 警察（犯人AI）で再戦：犯人AIの初期位置も再抽選してセットアップへ
-        if (role === "POLICE") {
-          const c0 = randomCell();
-          const visits: Record<string, number[]> = {};
-          visits[keyCell(c0)] = [1];
-
-          return {
-            ...s,
-            mode: "SINGLE",
-            role,
-            viewer: "POLICE",
-            phase: "POLICE_SETUP",
-            turn: 1,
-            helicopters: [],
-            selectedHeli: null,
-            actionsLeft: ACTIONS_PER_TURN,
-            heliActed: [false, false, false],
-            criminalPos: c0,
-            visits,
-            revealed: {},
-            searched: {},
-            criminalPath: [c0],
-            lastPoliceSearches: [],
-            policeAiThinking: false,
-            criminalMoving: false,
-            moveWaitSec: 5,
-            winner: null,
-            handoff: { show: false, to: "POLICE", message: "" },
-          };
-        }
+    setPoliceMode("MOVE");
+    setReplayIndex(null);
 
-        // 犯人（警察AI）で再戦：ヘリも再配置し、犯人が初期位置を選ぶフェーズへ
-        const helis = uniqueRandomNodes(3);
-        return {
-          ...s,
-          mode: "SINGLE",
-          role,
-          viewer: "CRIMINAL",
-          phase: "CRIMINAL_HIDE",
-          turn: 1,
-          helicopters: helis,
-          selectedHeli: null,
-          actionsLeft: ACTIONS_PER_TURN,
-          heliActed: [false, false, false],
-          criminalPos: null,
-          visits: {},
-          revealed: {},
-          searched: {},
-          criminalPath: [],
-          lastPoliceSearches: [],
-          policeAiThinking: false,
-          criminalMoving: false,
-          moveWaitSec: 5,
-          winner: null,
-          handoff: { show: false, to: "CRIMINAL", message: "" },
-        };
-      }
+    if (state.mode === "ONLINE") {
+      onlineRef.current?.send({ type: "REMATCH" });
+      return;
+    }
 
-      // それ以外はタイトルへ
-      return {
-        ...s,
-        mode: "SINGLE",
-        role: null,
-        viewer: "POLICE",
-        phase: "ROLE_SELECT",
-        turn: 1,
-        helicopters: [],
-        selectedHeli: null,
-        actionsLeft: ACTIONS_PER_TURN,
-        heliActed: [false, false, false],
-        criminalPos: null,
-        visits: {},
-        revealed: {},
-        searched: {},
-        criminalPath: [],
-        lastPoliceSearches: [],
-        policeAiThinking: false,
-        criminalMoving: false,
-        moveWaitSec: 5,
-        winner: null,
-        handoff: { show: false, to: "POLICE", message: "" },
-      };
-    });
+    // PASS_PLAY はセットアップから / SINGLE は直前の role で再戦 / シリーズは次の試合 / それ以外はタイトルへ
+    setState((s) => rematchState(s));
   }
 
-
-  function showHandoff(to: Viewer, message: string, nextPhase?: Phase) {
-    setState((s) => ({
-      ...s,
-      ...(nextPhase ? { phase: nextPhase } : {}),
-      handoff: { show: true, to, message },
-    }));
+  // 同じシードで最初から（AIの動きも同じになる）
+  function rematchSameSeed() {
+    clearAiTimers();
+    setPoliceMode("MOVE");
+    setReplayIndex(null);
+    setState((s) => rematchState(s, s.seed));
   }
+
   function acceptHandoff() {
-    setState((s) => ({
-      ...s,
-      viewer: s.handoff.to,
-      handoff: { show: false, to: s.handoff.to, message: "" },
-    }));
+    dispatch({ type: "ACCEPT_HANDOFF" });
   }
 
   // ===== モード選択（SINGLEは従来 / PASS_PLAYは同端末対戦） =====
   function choosePassPlay() {
     clearAiTimers();
-    setPoliceSearchMode(false);
-    setState((s) => ({
-      ...s,
-      mode: "PASS_PLAY",
-      role: null,
-      viewer: "POLICE",
-      phase: "POLICE_SETUP",
-      turn: 1,
-      helicopters: [],
-      selectedHeli: null,
-      actionsLeft: ACTIONS_PER_TURN,
-      heliActed: [false, false, false],
-      criminalPos: null,
-      visits: {},
-      revealed: {},
-      searched: {},
-      criminalPath: [],
-      lastPoliceSearches: [],
-      winner: null,
-      criminalMoving: false,
-      policeAiThinking: false,
-      handoff: { show: false, to: "POLICE", message: "" },
-    }));
+    setPoliceMode("MOVE");
+    setReplayIndex(null);
+    const seed = parseSeed(seedInput) ?? undefined;
+    setState((s) => withSeries(newGame({ ...setupOf(s), mode: "PASS_PLAY", role: null }, seed)));
   }
 
   function chooseRoleSingle(role: Role) {
     clearAiTimers();
-    setPoliceSearchMode(false);
+    setPoliceMode("MOVE");
+    setReplayIndex(null);
+    const seed = parseSeed(seedInput) ?? undefined;
+    setState((s) => withSeries(newGame({ ...setupOf(s), mode: "SINGLE", role }, seed)));
+  }
 
-    if (role === "POLICE") {
-      const c0 = randomCell();
-      const visits: Record<string, number[]> = {};
-      visits[keyCell(c0)] = [1];
+  // タイトルでシリーズを選んでいれば第1試合からシリーズにする
+  function withSeries(first: GameState): GameState {
+    return seriesLength > 1 ? { ...first, series: createSeries(seriesLength, first) } : first;
+  }
 
+  // ===== オンライン対戦：部屋を作る／部屋コードで参加 =====
+  function onServerMessage(msg: ServerMessage) {
+    if (msg.type === "JOINED" || msg.type === "WATCHING") {
+      setOnline((o) => (o ? { ...o, code: msg.code, error: null } : o));
+    } else if (msg.type === "OPPONENT") {
+      setOnline((o) => (o ? { ...o, opponent: msg.present } : o));
+    } else if (msg.type === "STATE") {
+      setReplayIndex(null);
+      // サーバーの状態は記録済みかを知らないので、同じ対戦の END なら端末側の値を残す
       setState((s) => ({
-        ...s,
-        mode: "SINGLE",
-        role,
-        viewer: "POLICE",
-        phase: "POLICE_SETUP",
-        turn: 1,
-        helicopters: [],
-        selectedHeli: null,
-        actionsLeft: ACTIONS_PER_TURN,
-        heliActed: [false, false, false],
-        criminalPos: c0,
-        visits,
-        revealed: {},
-        searched: {},
-        criminalPath: [c0],
-        lastPoliceSearches: [],
-        winner: null,
-        criminalMoving: false,
-        policeAiThinking: false,
-        handoff: { show: false, to: "POLICE", message: "" },
+        ...msg.state,
+        statsRecorded: msg.state.phase === "END" && s.phase === "END" && s.seed === msg.state.seed && s.statsRecorded,
       }));
+      setOnline((o) => (o ? { ...o, error: null } : o));
     } else {
-      // ✅ ソロ：犯人（警察AI）
-      const helis = uniqueRandomNodes(3);
-      setState((s) => ({
-        ...s,
-        mode: "SINGLE",
-        role,
-        viewer: "CRIMINAL",
-        phase: "CRIMINAL_HIDE",
-        turn: 1,
-        helicopters: helis,
-        selectedHeli: null,
-        actionsLeft: ACTIONS_PER_TURN,
-        heliActed: [false, false, false],
-        criminalPos: null,
-        visits: {},
-        revealed: {},
-        searched: {},
-        criminalPath: [],
-        lastPoliceSearches: [],
-        winner: null,
-        criminalMoving: false,
-        policeAiThinking: false,
-        handoff: { show: false, to: "CRIMINAL", message: "" },
-      }));
+      setOnline((o) => (o ? { ...o, error: msg.reason } : o));
     }
   }
 
-  const routePoints = useMemo(() => {
-    if (state.phase !== "END") return [];
-    if (state.criminalPath.length < 2) return [];
-    return state.criminalPath.map(cellCenterPct);
-  }, [state.phase, state.criminalPath]);
+  function startOnline(first: ClientMessage) {
+    clearAiTimers();
+    leaveOnline();
+    setPoliceMode("MOVE");
+    setReplayIndex(null);
+    setOnline({ code: null, opponent: false, error: null });
+    onlineRef.current = connectOnline(first, {
+      onMessage: onServerMessage,
+      onClose: () => setOnline((o) => (o ? { ...o, error: "DISCONNECTED" } : o)),
+    });
+  }
 
-  const polylinePoints = useMemo(() => {
-    if (routePoints.length === 0) return "";
-    return routePoints.map((p) => `${p.x},${p.y}`).join(" ");
-  }, [routePoints]);
+  function createOnlineRoom(role: Role) {
+    const seed = parseSeed(seedInput) ?? undefined;
+    startOnline({
+      type: "CREATE",
+      role,
+      rulesId: rules.id,
+      seed,
+      revealTurns: rules.revealTurns,
+      map: rules.map,
+      criminalCount: rules.criminalCount,
+      units: rules.units,
+      roadblockTurns: rules.roadblockTurns,
+    });
+  }
 
-  function toggleHeliSetup(n: Node) {
-    if (state.phase !== "POLICE_SETUP") return;
-    if (state.mode === "PASS_PLAY" && state.viewer !== "POLICE") return;
+  function joinOnlineRoom() {
+    const code = roomCodeInput.trim().toUpperCase();
+    if (!code) return;
+    startOnline({ type: "JOIN", code });
+  }
 
-    const k = keyNode(n);
-    const idx = state.helicopters.findIndex((h) => keyNode(h) === k);
+  function watchOnlineRoom() {
+    const code = roomCodeInput.trim().toUpperCase();
+    if (!code) return;
+    startOnline({ type: "WATCH", code, view: "POLICE" });
+    setSpectator({ source: "ONLINE", view: "POLICE" });
+  }
 
-    if (idx >= 0) {
-      const next = state.helicopters.slice();
-      next.splice(idx, 1);
-      setState((s) => ({ ...s, helicopters: next }));
+  // 観戦の見え方を切り替える（オンラインはサーバーに送り直してもらう）
+  function chooseSpectatorView(view: SpectatorView) {
+    if (!spectator) return;
+    setSpectator({ ...spectator, view });
+    if (spectator.source === "ONLINE") {
+      if (online?.code) onlineRef.current?.send({ type: "WATCH", code: online.code, view });
       return;
     }
-    if (state.helicopters.length >= 3) return;
-    setState((s) => ({ ...s, helicopters: [...s.helicopters, n] }));
+    const saved = loadGame();
+    if (saved) setState(viewForSpectator(saved, view));
   }
 
-  function startFromSetup() {
-    if (state.phase !== "POLICE_SETUP") return;
-    if (state.helicopters.length !== 3) return;
+  // この端末の対戦を別ウィンドウで観戦する
+  function openSpectatorWindow() {
+    window.open(`${window.location.pathname}?spectate=local`, "_blank");
+  }
 
-    setPoliceSearchMode(false);
+  function leaveOnline() {
+    onlineRef.current?.close();
+    onlineRef.current = null;
+    setOnline(null);
+  }
 
-    if (state.mode === "PASS_PLAY") {
-      setState((s) => ({
-        ...s,
-        phase: "CRIMINAL_HIDE",
-        selectedHeli: null,
-        actionsLeft: ACTIONS_PER_TURN,
-        heliActed: [false, false, false],
-      }));
-      showHandoff("CRIMINAL", "犯人に端末を渡してください。犯人はヘリ配置を見た上で初期位置を選びます。");
-      return;
-    }
+  // タイトル画面でルールを選ぶ（次の対戦から適用）
+  function chooseRules(next: RuleSet) {
+    // 位置公開ルールを選んでいれば、新しいルールのおすすめ公開ターンにする
+    const revealTurns = revealInput != null ? defaultRevealTurns(next) : [];
+    if (revealInput != null) setRevealInput(revealTurns.join(", "));
+    setState((s) =>
+      s.phase === "ROLE_SELECT"
+        ? { ...s, rules: { ...next, revealTurns, criminalCount: s.rules.criminalCount, roadblockTurns: s.rules.roadblockTurns } }
+        : s
+    );
+  }
 
-    setState((s) => ({
-      ...s,
-      phase: "POLICE_TURN",
-      selectedHeli: 0,
-      actionsLeft: ACTIONS_PER_TURN,
-      heliActed: [false, false, false],
-    }));
+  // タイトル画面で警察の部隊（種類と数）を選ぶ。ルールを選び直すとそのルールの部隊に戻る
+  function chooseUnits(units: UnitKind[]) {
+    setState((s) => (s.phase === "ROLE_SELECT" ? { ...s, rules: { ...s.rules, units } } : s));
+  }
+
+  // タイトル画面でロードブロックのターン数を選ぶ（0 はなし）
+  function chooseRoadblockTurns(roadblockTurns: number) {
+    setState((s) => (s.phase === "ROLE_SELECT" ? { ...s, rules: { ...s.rules, roadblockTurns } } : s));
+  }
+
+  // タイトル画面で犯人の人数を選ぶ
+  function chooseCriminalCount(criminalCount: number) {
+    setState((s) => (s.phase === "ROLE_SELECT" ? { ...s, rules: { ...s.rules, criminalCount } } : s));
+  }
+
+  // タイトル画面で地図を選ぶ（ルールの大きさに合うものだけ選べる）
+  function chooseMap(map: CityMap) {
+    setState((s) => (s.phase === "ROLE_SELECT" && map.size === s.rules.size ? { ...s, rules: { ...s.rules, map } } : s));
+  }
+
+  // 地図エディタで保存・削除したら端末に残す（選んでいる地図が消えたら標準の街に戻す）
+  function changeSavedMaps(next: CityMap[]) {
+    setSavedMaps(next);
+    saveMaps(next);
+    if (rules.map.id !== "open") chooseMap(next.find((m) => m.id === rules.map.id) ?? openMap(rules.size));
+  }
+
+  // タイトル画面の位置公開ルール（null＝なし / 文字列＝公開ターンの入力）
+  function chooseRevealTurns(text: string | null) {
+    setRevealInput(text);
+    setState((s) =>
+      s.phase === "ROLE_SELECT" ? { ...s, rules: { ...s.rules, revealTurns: text != null ? parseRevealTurns(text, s.rules) : [] } } : s
+    );
+  }
+
+  // タイトル画面でAIの強さを選ぶ（ソロの相手AIに適用）
+  function chooseAiLevel(key: "policeAiLevel" | "criminalAiLevel", next: AiLevel) {
+    setState((s) => (s.phase === "ROLE_SELECT" ? { ...s, [key]: next } : s));
+  }
+
+  // 盤面に出してよい情報：観戦者は選んだ見え方、プレイヤーは自分の役割（PASS_PLAY は今見ている人）、END は全部
+  const knowledge: SpectatorView =
+    state.phase === "END"
+      ? "OMNISCIENT"
+      : spectator
+      ? spectator.view
+      : state.mode === "SINGLE"
+      ? state.role ?? "POLICE"
+      : state.viewer === "CRIMINAL"
+      ? "CRIMINAL"
+      : "POLICE";
+
+  // 盤面に出す痕跡：警察の視点では痕跡が出たターンまでの訪問だけ（どの犯人のものでもビルごとにまとめる）
+  const traceCriminals = useMemo(
+    () => (knowledge === "POLICE" ? view.criminals.map((cr) => ({ ...cr, visits: revealedVisits(cr.visits, view.revealed) })) : view.criminals),
+    [knowledge, view.criminals, view.revealed]
+  );
+  const viewVisits = useMemo(() => mergedVisits(traceCriminals), [traceCriminals]);
+
+  // 犯人ルート：END と「全部見る」観戦のときだけ（各点にそのマスにいたターン。複数犯人なら1人1本）
+  const fullRoutes = useMemo(() => {
+    if (knowledge !== "OMNISCIENT") return [];
+    return view.criminals.flatMap((cr, criminal) =>
+      cr.path.length < 2
+        ? []
+        : [{ criminal, points: cr.path.map((c) => ({ ...cellCenterPct(c, rules.size), turn: cr.visits[keyCell(c)]?.[0] ?? null })) }]
+    );
+  }, [knowledge, view.criminals, rules.size]);
+  const routeLength = Math.max(0, ...fullRoutes.map((r) => r.points.length));
+
+  // END ではルートを1手ずつ描く（リプレイ中・動きを減らす設定のときは最初から全部）
+  const animateRoute = state.phase === "END" && replayIndex == null && !reduceMotion;
+  const [routeProgress, setRouteProgress] = useState<{ log: LogEvent[] | null; count: number }>({ log: null, count: 0 });
+  const routeCount = routeProgress.log === state.log ? routeProgress.count : 0;
+
+  useEffect(() => {
+    if (!animateRoute || routeCount >= routeLength) return;
+    const log = state.log;
+    const t = window.setTimeout(() => setRouteProgress({ log, count: routeCount + 1 }), ROUTE_STEP_MS);
+    return () => window.clearTimeout(t);
+  }, [animateRoute, routeCount, routeLength, state.log]);
+
+  const routes = fullRoutes.map((r) => {
+    const points = animateRoute ? r.points.slice(0, routeCount) : r.points;
+    return { ...r, points, done: points.length === r.points.length };
+  });
+
+  function toggleHeliSetup(n: Node) {
+    dispatch({ type: "TOGGLE_HELI", node: n });
+  }
+
+  function startFromSetup() {
+    setPoliceMode("MOVE");
+    dispatch({ type: "START_FROM_SETUP" });
   }
 
   function selectHeli(i: number) {
-    if (state.phase !== "POLICE_TURN") return;
     if (state.criminalMoving) return;
-    if (state.mode === "PASS_PLAY" && state.viewer !== "POLICE") return;
-    setState((s) => ({ ...s, selectedHeli: i }));
+    // 地上部隊はその場で捜索できないので移動モードに戻す
+    if (onCell(state.heliKinds[i]) && policeMode === "SEARCH") setPoliceMode("MOVE");
+    dispatch({ type: "SELECT_HELI", heli: i });
   }
 
   function currentHeliCanAct(): boolean {
@@ -762,237 +650,84 @@ export default function App() {
     if (state.selectedHeli == null) return false;
     if (state.actionsLeft <= 0) return false;
     if (state.criminalMoving) return false;
-    if (state.mode === "PASS_PLAY" && state.viewer !== "POLICE") return false;
+    if (state.mode !== "SINGLE" && state.viewer !== "POLICE") return false;
     return !state.heliActed[state.selectedHeli];
   }
 
   function moveHeliPlayer(to: Node) {
-    if (state.phase !== "POLICE_TURN") return;
     if (state.selectedHeli == null) return;
-    if (!currentHeliCanAct()) return;
-
-    const occupied = new Set(state.helicopters.map(keyNode));
-    occupied.delete(keyNode(state.helicopters[state.selectedHeli]));
-    if (occupied.has(keyNode(to))) return;
-
-    const from = state.helicopters[state.selectedHeli];
-    const ok = neighborsNode(from).some((n) => keyNode(n) === keyNode(to));
-    if (!ok) return;
-
-    const helicopters = state.helicopters.slice();
-    helicopters[state.selectedHeli] = to;
-
-    const heliActed = state.heliActed.slice();
-    heliActed[state.selectedHeli] = true;
+    dispatch({ type: "MOVE_HELI", heli: state.selectedHeli, to });
+  }
 
-    setState((s) => ({
-      ...s,
-      helicopters,
-      heliActed,
-      actionsLeft: s.actionsLeft - 1,
-    }));
+  // 選んでいる部隊がその場で捜索できるか（地上部隊・捜索しきったドローンはできない）
+  function currentHeliCanSearch(): boolean {
+    return currentHeliCanAct() && unitSearchCells(state, state.selectedHeli!).length > 0;
   }
 
   function setPoliceModeSearch() {
     if (state.phase !== "POLICE_TURN") return;
-    if (!currentHeliCanAct()) return;
-    setPoliceSearchMode(true);
+    if (!currentHeliCanSearch()) return;
+    setPoliceMode("SEARCH");
   }
   function setPoliceModeMove() {
     if (state.phase !== "POLICE_TURN") return;
-    if (state.mode === "PASS_PLAY" && state.viewer !== "POLICE") return;
-    setPoliceSearchMode(false);
+    if (state.mode !== "SINGLE" && state.viewer !== "POLICE") return;
+    setPoliceMode("MOVE");
+  }
+  function setPoliceModeRoadblock() {
+    if (state.phase !== "POLICE_TURN") return;
+    if (rules.roadblockTurns <= 0 || !currentHeliCanAct()) return;
+    setPoliceMode("ROADBLOCK");
   }
 
   function searchCellPlayer(target: Cell) {
-    if (state.phase !== "POLICE_TURN") return;
     if (state.selectedHeli == null) return;
-    if (!policeSearchMode) return;
-    if (!currentHeliCanAct()) return;
-
-    const node = state.helicopters[state.selectedHeli];
-    const cand = surroundingCells(node);
-    const ok = cand.some((c) => c.r === target.r && c.c === target.c);
-    if (!ok) return;
-
-    const searched = { ...state.searched, [keyCell(target)]: true };
-
-    if (state.criminalPos && target.r === state.criminalPos.r && target.c === state.criminalPos.c) {
-      setState((s) => ({ ...s, phase: "END", winner: "POLICE", searched }));
-      return;
-    }
-
-    const revealed = { ...state.revealed };
-    const v = state.visits[keyCell(target)];
-    if (v && v.length > 0 && !revealed[keyCell(target)]) revealed[keyCell(target)] = true;
-
-    const heliActed = state.heliActed.slice();
-    heliActed[state.selectedHeli] = true;
+    if (policeMode !== "SEARCH") return;
+    dispatch({ type: "SEARCH", heli: state.selectedHeli, target });
+  }
 
-    setState((s) => ({
-      ...s,
-      searched,
-      revealed,
-      heliActed,
-      actionsLeft: s.actionsLeft - 1,
-    }));
+  function roadblockPlayer(cell: Cell) {
+    if (state.selectedHeli == null) return;
+    if (policeMode !== "ROADBLOCK") return;
+    dispatch({ type: "ROADBLOCK", heli: state.selectedHeli, cell });
   }
 
   function endPoliceTurn() {
-    if (state.phase !== "POLICE_TURN") return;
-    if (state.criminalMoving) return;
-
-    if (state.turn >= MAX_TURN) {
-      setState((s) => ({ ...s, phase: "END", winner: "CRIMINAL" }));
-      return;
-    }
-
-    const nextTurn = state.turn + 1;
-
-    if (state.mode === "PASS_PLAY") {
-      setState((s) => ({
-        ...s,
-        phase: "CRIMINAL_MOVE",
-        actionsLeft: ACTIONS_PER_TURN,
-        heliActed: s.heliActed,
-        selectedHeli: null,
-      }));
-      showHandoff("CRIMINAL", "犯人に端末を渡してください。犯人は1回だけ移動します（待機NG / 再訪NG）。");
-      return;
-    }
-
-    // SINGLE：犯人AI移動（警察プレイ時）
-    const wait: 5 | 10 | 15 = pickRandom([5, 10, 15] as const);
-    clearAiTimers();
-    setState((s) => ({ ...s, phase: "CRIMINAL_AI_MOVING", criminalMoving: true, moveWaitSec: wait }));
-
-    const t = window.setTimeout(() => {
-      setState((prev) => {
-        if (prev.role !== "POLICE") return prev;
-        if (!prev.criminalPos) return prev;
-
-        const mv = criminalAiNextMoveNoStuck(prev.criminalPos, prev.visits, prev.turn);
-
-        if (mv.stuck) {
-          return { ...prev, phase: "END", winner: "CRIMINAL", criminalMoving: false };
-        }
-
-        const visits = { ...prev.visits };
-        visits[keyCell(mv.next)] = Array.from(new Set([...(visits[keyCell(mv.next)] ?? []), nextTurn]));
-
-        return {
-          ...prev,
-          turn: nextTurn,
-          criminalPos: mv.next,
-          visits,
-          criminalPath: [...prev.criminalPath, mv.next],
-          phase: "POLICE_TURN",
-          actionsLeft: ACTIONS_PER_TURN,
-          heliActed: [false, false, false],
-          selectedHeli: 0,
-          criminalMoving: false,
-        };
-      });
-    }, wait * 1000);
+    dispatch({ type: "END_POLICE_TURN" });
+  }
 
-    aiTimersRef.current.push(t);
+  function undoPolice() {
+    dispatch({ type: "UNDO" });
   }
 
-  // 行動が0になったら自動でターン終了
+  // 行動が0になったら自動でターン終了（取り消せる行動が残っているときは「ターン終了」ボタン待ち）
   useEffect(() => {
     if (state.phase !== "POLICE_TURN") return;
+    if (state.viewer !== "POLICE") return;
     if (state.actionsLeft !== 0) return;
     if (state.criminalMoving) return;
+    if (state.undoStack.length > 0) return;
     const t = window.setTimeout(() => endPoliceTurn(), 0);
     return () => window.clearTimeout(t);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [state.phase, state.actionsLeft, state.criminalMoving]);
-
-  function criminalChooseStart(c: Cell) {
-    if (state.phase !== "CRIMINAL_HIDE") return;
-
-    if (state.mode === "PASS_PLAY" && state.viewer !== "CRIMINAL") return;
-
-    if (state.criminalPos != null) return;
+  }, [state.phase, state.actionsLeft, state.criminalMoving, state.undoStack.length]);
 
-    const visits = { ...state.visits };
-    visits[keyCell(c)] = [1];
-
-    if (state.mode === "PASS_PLAY") {
-      setState((s) => ({
-        ...s,
-        criminalPos: c,
-        visits,
-        criminalPath: [c],
-        phase: "POLICE_TURN",
-        actionsLeft: ACTIONS_PER_TURN,
-        heliActed: [false, false, false],
-        selectedHeli: 0,
-      }));
-      showHandoff("POLICE", "警察に端末を渡してください。警察は3回行動（ヘリは毎回選び直しOK）。");
-      return;
-    }
+  // SINGLE：犯人AI移動（警察プレイ時）は待ち時間のあとに1手進める
+  useEffect(() => {
+    if (state.phase !== "CRIMINAL_AI_MOVING") return;
+    if (state.viewer === "SPECTATOR") return;
+    const t = window.setTimeout(() => dispatch({ type: "CRIMINAL_AI_MOVE" }), state.moveWaitSec * 1000);
+    return () => window.clearTimeout(t);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [state.phase, state.moveWaitSec, state.viewer]);
 
-    // SINGLE（犯人プレイ）：警察AIターンへ
-    setState((s) => ({
-      ...s,
-      criminalPos: c,
-      visits,
-      criminalPath: [c],
-      phase: "POLICE_AI_TURN",
-      actionsLeft: ACTIONS_PER_TURN,
-      heliActed: [false, false, false],
-      selectedHeli: null,
-      lastPoliceSearches: [],
-    }));
+  function criminalChooseStart(c: Cell) {
+    dispatch({ type: "CRIMINAL_CHOOSE_START", cell: c });
   }
 
   function criminalMoveTo(c: Cell) {
-    if (state.phase !== "CRIMINAL_MOVE") return;
-    if (!state.criminalPos) return;
-
-    if (state.mode === "PASS_PLAY" && state.viewer !== "CRIMINAL") return;
-
-    const neigh = neighborsCell(state.criminalPos);
-    const isNeighbor = neigh.some((n) => n.r === c.r && n.c === c.c);
-    if (!isNeighbor) return;
-
-    const visited = new Set(Object.keys(state.visits));
-    if (visited.has(keyCell(c))) return;
-
-    const nextTurn = state.turn + 1;
-
-    const visits = { ...state.visits };
-    visits[keyCell(c)] = Array.from(new Set([...(visits[keyCell(c)] ?? []), nextTurn]));
-
-    if (state.mode === "PASS_PLAY") {
-      setState((s) => ({
-        ...s,
-        turn: nextTurn,
-        criminalPos: c,
-        visits,
-        criminalPath: [...s.criminalPath, c],
-        phase: "POLICE_TURN",
-        actionsLeft: ACTIONS_PER_TURN,
-        heliActed: [false, false, false],
-        selectedHeli: 0,
-      }));
-      showHandoff("POLICE", "警察に端末を渡してください。次の警察ターンです（3回行動）。");
-      return;
-    }
-
-    setState((s) => ({
-      ...s,
-      turn: nextTurn,
-      criminalPos: c,
-      visits,
-      criminalPath: [...s.criminalPath, c],
-      phase: "POLICE_AI_TURN",
-      actionsLeft: ACTIONS_PER_TURN,
-      heliActed: [false, false, false],
-      selectedHeli: null,
-      lastPoliceSearches: [],
-    }));
+    if (closedSet.has(keyCell(c))) return;
+    dispatch({ type: "CRIMINAL_MOVE", to: c });
   }
 
   // ===== 警察AIターン（ソロ犯人のときだけ動く） =====
@@ -1004,117 +739,23 @@ export default function App() {
 
     const stepDelay = 850;
 
-    // ✅ 必ず3機とも行動する（順番に未行動ヘリを選ぶ）
-    for (let i = 0; i < ACTIONS_PER_TURN; i++) {
+    // ✅ 行動回数ぶん必ず行動する（順番に未行動ヘリを選ぶ）
+    const steps = state.rules.actionsPerTurn;
+    for (let i = 0; i < steps; i++) {
       const t = window.setTimeout(() => {
         if (!aiRunningRef.current) return;
 
         setState((prev) => {
-          if (prev.phase !== "POLICE_AI_TURN") return prev;
-          if (!prev.criminalPos) return prev;
-          if (prev.actionsLeft <= 0) return prev;
-
-          const heat = buildHeat(prev.turn, prev.visits, prev.revealed);
-
-          const remaining = [0, 1, 2].filter((idx) => !prev.heliActed[idx]);
-          if (remaining.length === 0) return prev;
-
-          // 「必ず全機行動」なので、ランダムではなく先頭（未行動）を使う
-          const heliIndex = remaining[0] as 0 | 1 | 2;
-          const heliNode = prev.helicopters[heliIndex];
-
-          const hasAnyTrace = Object.values(prev.revealed).some(Boolean);
-          const isLastTurn = prev.turn >= MAX_TURN;
-
-          // 最終ターンは移動しない（既存仕様）
-          const preferMove = isLastTurn ? false : Math.random() < (hasAnyTrace ? 0.55 : 0.3);
-
-          // ---- まず移動を試す（待機禁止なので、移動できないときは必ず捜索にフォールバック） ----
-          if (preferMove) {
-            const target = bestCellByHeat(heat);
-            const occupied = new Set(prev.helicopters.map(keyNode));
-            occupied.delete(keyNode(heliNode));
-
-            const to = bestMoveNodeTowardAvoidOccupied(heliNode, target, occupied);
-
-            // 移動できたか（隣接かつ別マス）
-            const canMove =
-              (to.r !== heliNode.r || to.c !== heliNode.c) &&
-              neighborsNode(heliNode).some((x) => keyNode(x) === keyNode(to)) &&
-              !occupied.has(keyNode(to));
-
-            if (canMove) {
-              const helicopters = prev.helicopters.slice();
-              helicopters[heliIndex] = to;
-
-              const heliActed = prev.heliActed.slice();
-              heliActed[heliIndex] = true;
-
-              return {
-                ...prev,
-                helicopters,
-                heliActed,
-                selectedHeli: heliIndex,
-                actionsLeft: prev.actionsLeft - 1,
-              };
-            }
-            // 移動できないなら捜索へ（待機なし）
-          }
-
-          // ---- 捜索 ----
-          const target = bestSearchTarget(heliNode, heat, prev.searched, prev.revealed, prev.visits);
-          const searched = { ...prev.searched, [keyCell(target)]: true };
-
-          // ✅ 捜索マーク（直近3つ）を保存（犯人側に見せる）
-          const newMark: SearchMark = { turn: prev.turn, target, heliIndex };
-          const lastPoliceSearches = [...prev.lastPoliceSearches, newMark].slice(-3);
-
-          const cp = prev.criminalPos;
-          if (cp && target.r === cp.r && target.c === cp.c) {
-            aiRunningRef.current = false;
-            return {
-              ...prev,
-              phase: "END",
-              winner: "POLICE",
-              selectedHeli: heliIndex,
-              actionsLeft: 0,
-              policeAiThinking: false,
-              searched,
-              lastPoliceSearches,
-            };
-          }
-
-          const revealed = { ...prev.revealed };
-          const v = prev.visits[keyCell(target)];
-          if (v && v.length > 0 && !revealed[keyCell(target)]) revealed[keyCell(target)] = true;
-
-          const heliActed = prev.heliActed.slice();
-          heliActed[heliIndex] = true;
-
-          return {
-            ...prev,
-            searched,
-            revealed,
-            heliActed,
-            selectedHeli: heliIndex,
-            actionsLeft: prev.actionsLeft - 1,
-            lastPoliceSearches,
-          };
+          const res = applyAction(prev, { type: "POLICE_AI_STEP" });
+          if (!res.ok) return prev;
+          if (res.state.phase === "END") aiRunningRef.current = false;
+          return res.state;
         });
 
-        if (i === ACTIONS_PER_TURN - 1) {
+        if (i === steps - 1) {
           const t2 = window.setTimeout(() => {
-            setState((prev) => {
-              if (prev.phase !== "POLICE_AI_TURN") return prev;
-
-              if (prev.turn >= MAX_TURN) {
-                aiRunningRef.current = false;
-                return { ...prev, phase: "END", winner: "CRIMINAL", policeAiThinking: false, selectedHeli: null };
-              }
-
-              aiRunningRef.current = false;
-              return { ...prev, phase: "CRIMINAL_MOVE", policeAiThinking: false, selectedHeli: null };
-            });
+            aiRunningRef.current = false;
+            dispatch({ type: "END_POLICE_TURN" });
           }, 550);
           aiTimersRef.current.push(t2);
         }
@@ -1124,26 +765,33 @@ export default function App() {
     }
   }
 
+  // 犯人が隠れ終わったか（捕まって減っても警察AIのターンはやり直さない）
+  const criminalsHidden = state.criminals.some((cr) => cr.pos != null);
+
   useEffect(() => {
     if (state.phase !== "POLICE_AI_TURN") return;
-    if (!state.criminalPos) return;
+    if (!criminalsHidden) return;
     if (state.winner) return;
-    if (state.mode === "PASS_PLAY") return;
+    if (state.mode !== "SINGLE") return;
+    if (state.viewer === "SPECTATOR") return;
     clearAiTimers();
     runPoliceAiTurn();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [state.phase, state.criminalPos, state.winner, state.mode]);
+  }, [state.phase, criminalsHidden, state.winner, state.mode, state.viewer]);
 
-  const visitedSet = useMemo(() => new Set(Object.keys(state.visits)), [state.visits]);
+  // 再訪できないビル（今動かす犯人が通ったところ）
+  const visitedSet = useMemo(() => new Set(Object.keys(moverState?.visits ?? {})), [moverState]);
+  // 移動先に選べないビル（通ったビルと入れないビル。高速道路で通り抜けるのも）
+  const moverBlockedSet = useMemo(() => new Set([...visitedSet, ...closedSet]), [visitedSet, closedSet]);
 
   function canTapCell(c: Cell): boolean {
     if (state.mode === "PASS_PLAY") {
       if (state.handoff.show) return false;
 
       if (state.viewer === "CRIMINAL") {
-        if (state.phase === "CRIMINAL_HIDE" && state.criminalPos == null) return true;
-        if (state.phase === "CRIMINAL_MOVE" && state.criminalPos) {
-          const neigh = neighborsCell(state.criminalPos);
+        if (state.phase === "CRIMINAL_HIDE" && mover != null) return !isBlocked(c, rules) && !closedSet.has(keyCell(c));
+        if (state.phase === "CRIMINAL_MOVE" && moverState?.pos) {
+          const neigh = criminalSteps(moverState.pos, rules, moverBlockedSet).map((m) => m.to);
           const isNeighbor = neigh.some((n) => n.r === c.r && n.c === c.c);
           if (!isNeighbor) return false;
           if (visitedSet.has(keyCell(c))) return false;
@@ -1152,20 +800,13 @@ export default function App() {
         return false;
       }
 
-      if (state.viewer === "POLICE") {
-        if (state.phase === "POLICE_TURN" && policeSearchMode && state.selectedHeli != null) {
-          const node = state.helicopters[state.selectedHeli];
-          const cand = surroundingCells(node);
-          return cand.some((x) => x.r === c.r && x.c === c.c);
-        }
-        return false;
-      }
+      if (state.viewer === "POLICE") return policeCellAction(c) != null;
     }
 
     if (state.role === "CRIMINAL") {
-      if (state.phase === "CRIMINAL_HIDE" && state.criminalPos == null) return true;
-      if (state.phase === "CRIMINAL_MOVE" && state.criminalPos) {
-        const neigh = neighborsCell(state.criminalPos);
+      if (state.phase === "CRIMINAL_HIDE" && mover != null) return !isBlocked(c, rules) && !closedSet.has(keyCell(c));
+      if (state.phase === "CRIMINAL_MOVE" && moverState?.pos) {
+        const neigh = criminalSteps(moverState.pos, rules, moverBlockedSet).map((m) => m.to);
         const isNeighbor = neigh.some((n) => n.r === c.r && n.c === c.c);
         if (!isNeighbor) return false;
         if (visitedSet.has(keyCell(c))) return false;
@@ -1174,18 +815,38 @@ export default function App() {
       return false;
     }
 
-    if (state.role === "POLICE") {
-      if (state.phase === "POLICE_TURN" && policeSearchMode && state.selectedHeli != null) {
-        const node = state.helicopters[state.selectedHeli];
-        const cand = surroundingCells(node);
-        return cand.some((x) => x.r === c.r && x.c === c.c);
-      }
-      return false;
-    }
+    if (state.role === "POLICE") return policeCellAction(c) != null;
 
     return false;
   }
 
+  // 警察がビルをタップしたときの操作（地上部隊を置く・選ぶ・動かす、ヘリ・ドローンで捜索する、ロードブロックを置く）
+  function policeCellAction(c: Cell): "PLACE" | "SELECT" | "MOVE" | "SEARCH" | "ROADBLOCK" | null {
+    if (state.phase === "POLICE_SETUP") {
+      if (groundUnitAt(state, c) >= 0) return "PLACE";
+      return nextUnitKind(state, true) != null && !isBlocked(c, rules) ? "PLACE" : null;
+    }
+    if (state.phase !== "POLICE_TURN" || state.criminalMoving) return null;
+    if (groundUnitAt(state, c) >= 0) return "SELECT";
+    if (state.selectedHeli == null) return null;
+    if (policeMode === "ROADBLOCK") {
+      return currentHeliCanAct() && roadblockCells(state, state.selectedHeli).some((x) => sameCell(x, c)) ? "ROADBLOCK" : null;
+    }
+    if (selectedGround) {
+      return policeMode === "MOVE" && currentHeliCanAct() && unitMoves(state, state.selectedHeli).some((x) => sameCell(x, c)) ? "MOVE" : null;
+    }
+    return policeMode === "SEARCH" && unitSearchCells(state, state.selectedHeli).some((x) => sameCell(x, c)) ? "SEARCH" : null;
+  }
+
+  function policeCellTap(c: Cell) {
+    const action = policeCellAction(c);
+    if (action === "PLACE") dispatch({ type: "TOGGLE_GROUND", cell: c });
+    else if (action === "SELECT") selectHeli(groundUnitAt(state, c));
+    else if (action === "MOVE") moveHeliPlayer(c);
+    else if (action === "SEARCH") searchCellPlayer(c);
+    else if (action === "ROADBLOCK") roadblockPlayer(c);
+  }
+
   function onCellTap(c: Cell) {
     if (!canTapCell(c)) return;
 
@@ -1194,7 +855,7 @@ export default function App() {
         if (state.phase === "CRIMINAL_HIDE") criminalChooseStart(c);
         else if (state.phase === "CRIMINAL_MOVE") criminalMoveTo(c);
       } else {
-        if (state.phase === "POLICE_TURN" && policeSearchMode) searchCellPlayer(c);
+        policeCellTap(c);
       }
       return;
     }
@@ -1205,35 +866,77 @@ export default function App() {
       return;
     }
 
-    if (state.role === "POLICE") {
-      if (state.phase === "POLICE_TURN" && policeSearchMode) searchCellPlayer(c);
-    }
+    if (state.role === "POLICE") policeCellTap(c);
   }
 
   function onNodeTap(n: Node) {
+    if (state.viewer === "SPECTATOR") return;
+    if (state.mode !== "SINGLE" && state.viewer !== "POLICE") return;
     if (state.phase === "POLICE_SETUP") return toggleHeliSetup(n);
 
     if (state.phase === "POLICE_TURN") {
       if (state.criminalMoving) return;
-      if (state.mode === "PASS_PLAY" && state.viewer !== "POLICE") return;
 
-      const idx = state.helicopters.findIndex((h) => keyNode(h) === keyNode(n));
+      const idx = airUnitAt(state, n);
       if (idx >= 0) {
         selectHeli(idx);
         return;
       }
 
-      if (policeSearchMode) return;
+      if (policeMode !== "MOVE") return;
 
-      if (state.selectedHeli == null) return;
+      // 地上部隊はビルをタップして動かす
+      if (state.selectedHeli == null || selectedGround) return;
       moveHeliPlayer(n);
     }
   }
 
+  function onBoardKeyDown(e: React.KeyboardEvent<HTMLDivElement>) {
+    // 交代画面のボタンなど、盤面のマス・交差点以外で押されたキーは触らない
+    if (!(e.target instanceof HTMLElement) || !e.target.id.startsWith("board-")) return;
+
+    const step = ARROW_STEPS[e.key];
+    if (step) {
+      e.preventDefault();
+      const clamp = (x: number) => Math.max(0, Math.min(cursorMax, x));
+      setCursor({ r: clamp(focusAt.r + step.r), c: clamp(focusAt.c + step.c) });
+      setKeyboardFocus(true);
+      return;
+    }
+
+    // 交差点はボタンなので Enter / Space はそのままクリックになる
+    if ((e.key === "Enter" || e.key === " ") && cursorLayer === "CELL") {
+      e.preventDefault();
+      if (canTapCell(focusAt)) onCellTap(focusAt);
+      return;
+    }
+
+    if (state.phase !== "POLICE_TURN" || isSpectator) return;
+
+    if (e.key === "s" || e.key === "S") {
+      if (policeMode === "SEARCH") setPoliceModeMove();
+      else setPoliceModeSearch();
+      return;
+    }
+
+    if (e.key === "r" || e.key === "R") {
+      if (policeMode === "ROADBLOCK") setPoliceModeMove();
+      else setPoliceModeRoadblock();
+      return;
+    }
+
+    // 数字キーでヘリを選ぶ（フォーカスもそのヘリへ）
+    const heli = Number(e.key) - 1;
+    if (Number.isInteger(heli) && heli >= 0 && heli < state.helicopters.length) {
+      selectHeli(heli);
+      setCursor(state.helicopters[heli]);
+    }
+  }
+
   function cellStyle(c: Cell): React.CSSProperties {
     const k = keyCell(c);
-    const isRevealed = !!state.revealed[k];
-    const turns = state.visits[k] ?? [];
+    const isRevealed = !!view.revealed[k];
+    const turns = viewVisits[k] ?? [];
     const first = turns.length ? Math.min(...turns) : null;
 
     const base: React.CSSProperties = {
@@ -1253,18 +956,18 @@ export default function App() {
     
 
     if (isRevealed && first != null) {
-      base.background = traceColor(first);
+      base.background = traceColor(first, rules);
       base.opacity = 1;
       base.outline = "2px solid rgba(0,0,0,0.12)";
     }
 
     const isCriminalMovePhase =
-      ((state.mode === "PASS_PLAY" && state.viewer === "CRIMINAL") || (state.mode === "SINGLE" && state.role === "CRIMINAL")) &&
+      ((state.mode !== "SINGLE" && state.viewer === "CRIMINAL") || (state.mode === "SINGLE" && state.role === "CRIMINAL")) &&
       state.phase === "CRIMINAL_MOVE" &&
-      state.criminalPos != null;
+      moverState?.pos != null;
 
     if (isCriminalMovePhase) {
-      const neigh = neighborsCell(state.criminalPos!);
+      const neigh = criminalSteps(moverState!.pos!, rules, moverBlockedSet).map((m) => m.to);
       const isNeighbor = neigh.some((n) => n.r === c.r && n.c === c.c);
       const isVisited = visitedSet.has(k);
 
@@ -1279,21 +982,50 @@ export default function App() {
     }
 
     const isCriminalHide =
-      ((state.mode === "PASS_PLAY" && state.viewer === "CRIMINAL") || (state.mode === "SINGLE" && state.role === "CRIMINAL")) &&
+      ((state.mode !== "SINGLE" && state.viewer === "CRIMINAL") || (state.mode === "SINGLE" && state.role === "CRIMINAL")) &&
       state.phase === "CRIMINAL_HIDE" &&
-      state.criminalPos == null;
+      mover != null;
 
     if (isCriminalHide) {
       base.outline = "2px solid rgba(255,255,255,0.35)";
       base.cursor = "pointer";
     }
 
-    if (state.phase === "END" && state.criminalPos && state.criminalPos.r === c.r && state.criminalPos.c === c.c) {
+    // 地上部隊：置けるビル（配置中）・動けるビル（選んでいるとき）／ロードブロックを置けるビル
+    const policeAction = state.phase === "POLICE_SETUP" || selectedGround || policeMode === "ROADBLOCK" ? (canTapCell(c) ? policeCellAction(c) : null) : null;
+    if (policeAction === "PLACE") {
+      base.outline = "2px solid rgba(255,255,255,0.35)";
+      base.cursor = "pointer";
+    } else if (policeAction === "MOVE") {
+      base.outline = "4px solid #0ea5e9";
+      base.cursor = "pointer";
+    } else if (policeAction === "ROADBLOCK") {
+      base.outline = "4px dashed #f59e0b";
+      base.cursor = "pointer";
+    }
+
+    // ロードブロック中のビル
+    if (shownRoadblocks.has(k)) base.outline = "3px dashed #f59e0b";
+
+    if (state.phase === "END" && view.criminals.some((cr) => cr.pos && cr.pos.r === c.r && cr.pos.c === c.c)) {
       base.background = "#991b1b";
       base.outline = "3px solid rgba(255,255,255,0.9)";
       base.opacity = 1;
     }
 
+    // 地図で通れないビル（公園・川）：誰も入れないので強調もしない
+    if (isBlocked(c, rules)) {
+      base.background = "linear-gradient(180deg, #16a34a, #166534)";
+      base.outline = "none";
+      base.cursor = "default";
+      base.opacity = 1;
+    }
+
+    // キーボードのフォーカス位置
+    if (keyboardFocus && cursorLayer === "CELL" && focusAt.r === c.r && focusAt.c === c.c) {
+      base.boxShadow = "0 0 0 4px #facc15, 0 6px 10px rgba(0,0,0,0.18)";
+    }
+
     return base;
   }
 
@@ -1317,8 +1049,8 @@ export default function App() {
   const isPlayerLose = (() => {
     if (!state.winner) return false;
 
-    // ソロモードのみ判定
-    if (state.mode === "SINGLE" && state.role) {
+    // ソロ・オンライン（自分の役割がある）ときだけ判定
+    if (state.mode !== "PASS_PLAY" && state.role) {
       return state.winner !== state.role;
     }
 
@@ -1330,37 +1062,37 @@ export default function App() {
   const winnerText = (() => {
     if (!state.winner) return "";
 
-    // ===== ソロモード =====
-    if (state.mode === "SINGLE" && state.role) {
+    // ===== ソロ・オンライン =====
+    if (state.mode !== "PASS_PLAY" && state.role) {
       // プレイヤーが警察
       if (state.role === "POLICE") {
-        return state.winner === "POLICE" ? "🚓 警察の勝ち！" : "🚗 警察の負け…";
+        return state.winner === "POLICE" ? t.result.policeWin : t.result.policeLose;
       }
       // プレイヤーが犯人
       if (state.role === "CRIMINAL") {
-        return state.winner === "CRIMINAL" ? "🚗 犯人の勝ち！" : "🚓 犯人の負け…";
+        return state.winner === "CRIMINAL" ? t.result.criminalWin : t.result.criminalLose;
       }
     }
 
     // ===== 友達対戦（従来表示） =====
-    return state.winner === "POLICE" ? "🚓 警察の勝ち！" : "🚗 犯人の勝ち！";
+    return state.winner === "POLICE" ? t.result.policeWin : t.result.criminalWin;
   })();
 
   const winnerSub = (() => {
     if (!state.winner) return "";
 
-    // ===== ソロモード =====
-    if (state.mode === "SINGLE" && state.role) {
+    // ===== ソロ・オンライン =====
+    if (state.mode !== "PASS_PLAY" && state.role) {
       if (state.role === "POLICE") {
-        return state.winner === "POLICE" ? "犯人を見つけました" : "犯人に逃げ切られました";
+        return state.winner === "POLICE" ? t.result.caught : t.result.gotAway;
       }
       if (state.role === "CRIMINAL") {
-        return state.winner === "CRIMINAL" ? "逃げ切りました" : "警察に見つかりました";
+        return state.winner === "CRIMINAL" ? t.result.escaped : t.result.found;
       }
     }
 
     // ===== 友達対戦 =====
-    return state.winner === "POLICE" ? "犯人を見つけました" : "逃げ切りました";
+    return state.winner === "POLICE" ? t.result.caught : t.result.escaped;
   })();
 
 
@@ -1369,23 +1101,86 @@ export default function App() {
       ? "min(96vw, 820px)"   // iPad用
       : "min(92vw, 640px)";  // スマホ・PC用
 
+  const roadGap = roadGapFor(rules.size);
 
-  const shouldShowCarNow = (cell: Cell) => {
-    if (!state.criminalPos) return false;
-    const same = state.criminalPos.r === cell.r && state.criminalPos.c === cell.c;
-    if (!same) return false;
+  // 盤面の下に出す特別なビルの凡例（この地図にあるものだけ）
+  const mapTerrains = TERRAINS.filter((kind) => Object.values(rules.map.terrain).includes(kind));
 
-    if (state.phase === "END") return true;
+  // 交差点（道路の中央）の位置：盤面の大きさに対する calc() なので、リサイズしても追従し、移動のアニメーションも崩れない
+  const totalGap = (rules.size - 1) * roadGap;
+  function nodePosition(n: Node) {
+    return {
+      left: `calc((100% - ${totalGap}px) * ${(n.c + 1) / rules.size} + ${n.c * roadGap + roadGap / 2}px)`,
+      top: `calc((100% - ${totalGap}px) * ${(n.r + 1) / rules.size} + ${n.r * roadGap + roadGap / 2}px)`,
+    };
+  }
 
-    if (state.mode === "PASS_PLAY") {
-      return state.viewer === "CRIMINAL";
+  // ビルの真ん中の位置（地上部隊）
+  function cellPosition(c: Cell) {
+    return {
+      left: `calc((100% - ${totalGap}px) * ${(c.c + 0.5) / rules.size} + ${c.c * roadGap}px)`,
+      top: `calc((100% - ${totalGap}px) * ${(c.r + 0.5) / rules.size} + ${c.r * roadGap}px)`,
+    };
+  }
+
+  // 大きい盤面ではボタンを小さく（最大44px）
+  const cellPx = boardPx > 0 ? (boardPx - totalGap) / rules.size : 0;
+  const nodePx = cellPx > 0 ? Math.round(Math.min(44, Math.max(28, cellPx * 0.75))) : 44;
+
+  const animateHelis = !reduceMotion && state.phase !== "POLICE_SETUP";
+
+
+  // そのビルに表示する犯人（警察の視点では出さない）
+  const carsAt = (cell: Cell) => (knowledge !== "POLICE" ? criminalsAt(view, cell) : []);
+
+  // 読み上げ用：マスの名前と、今見えている情報（痕跡・犯人・公開位置・推理・逃走ヒント）
+  function cellAriaLabel(c: Cell) {
+    const k = keyCell(c);
+    if (isBlocked(c, rules)) return t.a11y.cell(cellName(c), [t.a11y.blocked]);
+    const details: string[] = [];
+    const terrain = terrainOf(c, rules);
+    if (terrain) details.push(t.terrain.names[terrain]);
+    const turns = viewVisits[k] ?? [];
+    if (view.revealed[k] && turns.length > 0) {
+      details.push(t.a11y.trace(Math.min(...turns)));
+      if (multiCriminal) details.push(t.a11y.traceBy(visitorsOf(traceCriminals, k).map(criminalLabel)));
     }
-    if (state.role === "CRIMINAL") return true;
-    return false;
-  };
+    for (const i of carsAt(c)) details.push(multiCriminal ? t.a11y.criminalAt(criminalLabel(i)) : t.a11y.criminalHere);
+    const ground = groundUnitAt(view, c);
+    if (ground >= 0) details.push(unitLabel(ground));
+    const roadblock = shownRoadblocks.get(k);
+    if (roadblock) details.push(t.a11y.roadblock(roadblockTurnsLeft(roadblock, view.turn)));
+    const announced = shownAnnouncements.get(k);
+    if (announced) details.push(t.a11y.announced(announced.turn));
+    if (deduction?.possible[c.r][c.c]) details.push(t.a11y.possible(deduction.endCount[c.r][c.c], deduction.exact));
+    const risk = escapeRisks?.get(k);
+    if (risk) details.push(risk.deadEnd ? t.a11y.deadEnd : t.a11y.danger(risk.danger));
+    if (!isSpectator && canTapCell(c)) details.push(t.a11y.selectable);
+    return t.a11y.cell(cellName(c), details);
+  }
 
-  // ✅ 捜索マークを表示する条件：ソロ犯人の「犯人手番（CRIMINAL_MOVE）」中に、同ターンの3つ
-  const showPoliceSearchMarks = state.mode === "SINGLE" && state.role === "CRIMINAL" && state.phase === "CRIMINAL_MOVE";
+  // 直前の捜索結果（警察の手番中に読み上げる。確保は結果表示で出る）
+  const lastEvent = state.log.length > 0 ? state.log[state.log.length - 1] : null;
+  const lastSearch = lastEvent?.kind === "SEARCH" ? lastEvent : null;
+
+  // 再戦ボタン：シリーズ中は次の試合／新しいシリーズ
+  const rematchLabel = !state.series
+    ? t.game.rematch
+    : state.phase !== "END"
+    ? t.game.retryGame
+    : seriesWinner(state.series) == null
+    ? t.game.nextSeriesGame
+    : t.game.newSeries;
+
+  // オンライン対戦で相手の手番か（警察の手番＝セットアップと警察ターン）
+  const isOpponentOnlineTurn =
+    state.mode === "ONLINE" &&
+    state.viewer !== "SPECTATOR" &&
+    state.phase !== "END" &&
+    (state.phase === "POLICE_SETUP" || state.phase === "POLICE_TURN") !== (state.viewer === "POLICE");
+
+  // ✅ 捜索マークを表示する条件：犯人側が見ている「犯人手番（CRIMINAL_MOVE）」中に、同ターンの3つ（警察AIの分）
+  const showPoliceSearchMarks = knowledge !== "POLICE" && state.phase === "CRIMINAL_MOVE";
 
   // タイトル画面用のスタイル
   const titleWrapStyle: React.CSSProperties = {
@@ -1411,59 +1206,486 @@ export default function App() {
     backdropFilter: "blur(6px)",
   };
 
-  return (
-    <div
-      style={{
-        padding: 8,
-        maxWidth: "100vw",
-        margin: "0 auto",
-        fontFamily: "system-ui, sans-serif",
-        overflowX: "hidden",
-        width: "100%",
-      }}
-    >
-      {/* ===== タイトル画面：Turn/Resetは出さない ===== */}
-      {state.phase === "ROLE_SELECT" ? (
-        <header style={titleWrapStyle}>
-          <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 12, flexWrap: "wrap" }}>
-            <div style={{ minWidth: 220 }}>
-              <div style={{ fontSize: 34, fontWeight: 1000, letterSpacing: 0.6 }}>シティチェイス</div>
-              <div style={{ marginTop: 6, fontSize: 13, color: "rgba(255,255,255,0.78)", lineHeight: 1.4 }}>
-                街中を逃げ回る犯人を追跡！鬼ごっこ×かくれんぼ！！
+  if (showStats && state.phase === "ROLE_SELECT") {
+    return <StatsScreen rules={rules} buttonStyle={baseButtonStyle} t={t} onClose={() => setShowStats(false)} />;
+  }
+
+  if (showMapEditor && state.phase === "ROLE_SELECT") {
+    return (
+      <MapEditor
+        rules={rules}
+        maps={savedMaps}
+        onChangeMaps={changeSavedMaps}
+        onUse={(map) => {
+          chooseMap(map);
+          setShowMapEditor(false);
+        }}
+        buttonStyle={baseButtonStyle}
+        t={t}
+        onClose={() => setShowMapEditor(false)}
+      />
+    );
+  }
+
+  return (
+    <div
+      style={{
+        padding: 8,
+        maxWidth: "100vw",
+        margin: "0 auto",
+        fontFamily: "system-ui, sans-serif",
+        overflowX: "hidden",
+        width: "100%",
+      }}
+    >
+      {/* ===== タイトル画面：Turn/Resetは出さない ===== */}
+      {state.phase === "ROLE_SELECT" && !isSpectator ? (
+        <header style={titleWrapStyle}>
+          <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 12, flexWrap: "wrap" }}>
+            <div style={{ minWidth: 220 }}>
+              <div style={{ fontSize: 34, fontWeight: 1000, letterSpacing: 0.6 }}>{t.title.name}</div>
+              <div style={{ marginTop: 6, fontSize: 13, color: "rgba(255,255,255,0.78)", lineHeight: 1.4 }}>
+                {t.title.tagline}
+              </div>
+            </div>
+            <div style={{ fontSize: 34, opacity: 0.9 }}>🚁🔎🚗</div>
+          </div>
+
+          <div style={{ display: "grid", gap: 10, marginTop: 14 }}>
+            <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
+              <button onClick={() => chooseRoleSingle("CRIMINAL")} style={{ ...titleButtonStyle, flex: 1, minWidth: 220 }}>
+                {t.title.soloCriminal}
+              </button>
+              <button
+                onClick={() => chooseRoleSingle("POLICE")}
+                style={{
+                  ...titleButtonStyle,
+                  flex: 1,
+                  minWidth: 220,
+                  background: "linear-gradient(135deg, rgba(14,165,233,0.92), rgba(59,130,246,0.92))",
+                  border: "1px solid rgba(255,255,255,0.18)",
+                }}
+              >
+                {t.title.soloPolice}
+              </button>
+            </div>
+
+            <button
+              onClick={choosePassPlay}
+              style={{
+                ...titleButtonStyle,
+                background: "linear-gradient(135deg, rgba(34,197,94,0.92), rgba(16,185,129,0.92))",
+                border: "1px solid rgba(255,255,255,0.18)",
+              }}
+            >
+              {t.title.passPlay}
+            </button>
+
+            <button onClick={() => setShowStats(true)} style={{ ...titleButtonStyle, height: 44, lineHeight: "44px", fontSize: 14 }}>
+              {t.title.stats}
+            </button>
+          </div>
+
+          <div style={{ marginTop: 14 }}>
+            <div style={{ fontSize: 12, fontWeight: 800, color: "rgba(255,255,255,0.78)" }}>{t.title.language}</div>
+            <div style={{ display: "flex", gap: 8, marginTop: 6 }}>
+              {LANGS.map((l) => {
+                const active = l === lang;
+                return (
+                  <button
+                    key={l}
+                    onClick={() => chooseLang(l)}
+                    style={{
+                      ...titleButtonStyle,
+                      flex: 1,
+                      height: 40,
+                      lineHeight: "40px",
+                      fontSize: 14,
+                      background: active ? "rgba(255,255,255,0.92)" : "rgba(255,255,255,0.10)",
+                      color: active ? "#111827" : "#fff",
+                    }}
+                  >
+                    {MESSAGES[l].langName}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          <FeedbackSettingsPanel
+            settings={feedback}
+            onChange={chooseFeedback}
+            onTest={() => playCue("TRACE", feedback)}
+            buttonStyle={titleButtonStyle}
+            t={t}
+          />
+
+          <div style={{ marginTop: 14 }}>
+            <div style={{ fontSize: 12, fontWeight: 800, color: "rgba(255,255,255,0.78)" }}>{t.title.rules}</div>
+            <div style={{ display: "flex", gap: 8, marginTop: 6 }}>
+              {RULE_PRESETS.map((r) => {
+                const active = r.id === rules.id;
+                return (
+                  <button
+                    key={r.id}
+                    onClick={() => chooseRules(r)}
+                    style={{
+                      ...titleButtonStyle,
+                      flex: 1,
+                      height: 40,
+                      lineHeight: "40px",
+                      fontSize: 14,
+                      background: active ? "rgba(255,255,255,0.92)" : "rgba(255,255,255,0.10)",
+                      color: active ? "#111827" : "#fff",
+                    }}
+                  >
+                    {t.title.ruleLabels[r.id] ?? r.id} {r.size}x{r.size}
+                  </button>
+                );
+              })}
+            </div>
+            <div style={{ marginTop: 6, fontSize: 12, color: "rgba(255,255,255,0.78)" }}>
+              {t.title.rulesSummary(rules.maxTurn, rules.actionsPerTurn, unitsSummary(rules.units))}
+            </div>
+          </div>
+
+          <div style={{ marginTop: 14 }}>
+            <div style={{ fontSize: 12, fontWeight: 800, color: "rgba(255,255,255,0.78)" }}>{t.units.title}</div>
+            <div style={{ display: "flex", gap: 8, marginTop: 6 }}>
+              {rules.units.map((kind, i) => (
+                <button
+                  key={i}
+                  // タップで ヘリ → ドローン → 地上部隊 → ヘリ と切り替える
+                  onClick={() => chooseUnits(rules.units.map((u, j) => (j === i ? UNIT_KINDS[(UNIT_KINDS.indexOf(u) + 1) % UNIT_KINDS.length] : u)))}
+                  title={t.units.cycle}
+                  aria-label={t.units.label(t.units.names[kind], i + 1)}
+                  style={{
+                    ...titleButtonStyle,
+                    flex: 1,
+                    height: 40,
+                    lineHeight: "40px",
+                    fontSize: 14,
+                    padding: 0,
+                    // 盤面と同じ番号ごとの色
+                    boxShadow: `inset 0 -4px 0 ${getHeliColor(i)}`,
+                  }}
+                >
+                  {UNIT_ICONS[kind]} {t.units.names[kind]}
+                </button>
+              ))}
+            </div>
+            <div style={{ display: "flex", gap: 8, marginTop: 8 }}>
+              <button
+                disabled={rules.units.length <= 1}
+                onClick={() => chooseUnits(rules.units.slice(0, -1))}
+                style={{ ...titleButtonStyle, flex: 1, height: 36, lineHeight: "36px", fontSize: 13, opacity: rules.units.length <= 1 ? 0.5 : 1 }}
+              >
+                {t.units.remove}
+              </button>
+              <button
+                disabled={rules.units.length >= MAX_UNITS}
+                onClick={() => chooseUnits([...rules.units, "HELI"])}
+                style={{ ...titleButtonStyle, flex: 1, height: 36, lineHeight: "36px", fontSize: 13, opacity: rules.units.length >= MAX_UNITS ? 0.5 : 1 }}
+              >
+                {t.units.add}
+              </button>
+            </div>
+            <div style={{ display: "grid", gap: 2, marginTop: 6, fontSize: 12, color: "rgba(255,255,255,0.78)" }}>
+              <div>{t.units.cycle}</div>
+              {UNIT_KINDS.filter((kind) => rules.units.includes(kind)).map((kind) => (
+                <div key={kind}>
+                  {UNIT_ICONS[kind]} {t.units.line(t.units.names[kind], t.units.help[kind])}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div style={{ marginTop: 14 }}>
+            <div style={{ fontSize: 12, fontWeight: 800, color: "rgba(255,255,255,0.78)" }}>{t.roadblocks.title}</div>
+            <div style={{ display: "flex", gap: 8, marginTop: 6 }}>
+              {ROADBLOCK_TURN_CHOICES.map((n) => {
+                const active = n === rules.roadblockTurns;
+                return (
+                  <button
+                    key={n}
+                    onClick={() => chooseRoadblockTurns(n)}
+                    style={{
+                      ...titleButtonStyle,
+                      flex: 1,
+                      height: 40,
+                      lineHeight: "40px",
+                      fontSize: 14,
+                      background: active ? "rgba(255,255,255,0.92)" : "rgba(255,255,255,0.10)",
+                      color: active ? "#111827" : "#fff",
+                    }}
+                  >
+                    {n > 0 ? t.roadblocks.turns(n) : t.roadblocks.off}
+                  </button>
+                );
+              })}
+            </div>
+            <div style={{ marginTop: 6, fontSize: 12, color: "rgba(255,255,255,0.78)" }}>{t.roadblocks.summary(rules.roadblockTurns)}</div>
+          </div>
+
+          <div style={{ marginTop: 14 }}>
+            <div style={{ fontSize: 12, fontWeight: 800, color: "rgba(255,255,255,0.78)" }}>{t.title.criminals}</div>
+            <div style={{ display: "flex", gap: 8, marginTop: 6 }}>
+              {Array.from({ length: MAX_CRIMINALS }, (_, i) => i + 1).map((n) => {
+                const active = n === rules.criminalCount;
+                return (
+                  <button
+                    key={n}
+                    onClick={() => chooseCriminalCount(n)}
+                    style={{
+                      ...titleButtonStyle,
+                      flex: 1,
+                      height: 40,
+                      lineHeight: "40px",
+                      fontSize: 14,
+                      background: active ? "rgba(255,255,255,0.92)" : "rgba(255,255,255,0.10)",
+                      color: active ? "#111827" : "#fff",
+                    }}
+                  >
+                    {t.title.criminalCount(n)}
+                  </button>
+                );
+              })}
+            </div>
+            <div style={{ marginTop: 6, fontSize: 12, color: "rgba(255,255,255,0.78)" }}>{t.title.criminalsSummary(rules.criminalCount)}</div>
+          </div>
+
+          <div style={{ marginTop: 14 }}>
+            <div style={{ fontSize: 12, fontWeight: 800, color: "rgba(255,255,255,0.78)" }}>{t.title.map}</div>
+            <div style={{ display: "flex", gap: 8, marginTop: 6, flexWrap: "wrap" }}>
+              {[openMap(rules.size), ...savedMaps.filter((m) => m.size === rules.size)].map((m) => {
+                const active = m.id === rules.map.id;
+                return (
+                  <button
+                    key={m.id}
+                    onClick={() => chooseMap(m)}
+                    style={{
+                      ...titleButtonStyle,
+                      flex: "1 1 auto",
+                      height: 40,
+                      lineHeight: "40px",
+                      fontSize: 14,
+                      padding: "0 12px",
+                      background: active ? "rgba(255,255,255,0.92)" : "rgba(255,255,255,0.10)",
+                      color: active ? "#111827" : "#fff",
+                    }}
+                  >
+                    {m.id === "open" ? t.title.mapStandard : m.name}
+                  </button>
+                );
+              })}
+            </div>
+            <div style={{ marginTop: 6, fontSize: 12, color: "rgba(255,255,255,0.78)" }}>
+              {t.title.mapSummary(rules.map.blocked.length, rules.map.closedRoads.length, Object.keys(rules.map.terrain).length)}
+            </div>
+            <button
+              onClick={() => setShowMapEditor(true)}
+              style={{ ...titleButtonStyle, width: "100%", marginTop: 8, height: 40, lineHeight: "40px", fontSize: 14 }}
+            >
+              {t.title.mapEdit}
+            </button>
+          </div>
+
+          <div style={{ marginTop: 14 }}>
+            <div style={{ fontSize: 12, fontWeight: 800, color: "rgba(255,255,255,0.78)" }}>{t.title.reveal}</div>
+            <div style={{ display: "flex", gap: 8, marginTop: 6 }}>
+              {[false, true].map((on) => {
+                const active = (revealInput != null) === on;
+                return (
+                  <button
+                    key={String(on)}
+                    onClick={() => chooseRevealTurns(on ? defaultRevealTurns(rules).join(", ") : null)}
+                    style={{
+                      ...titleButtonStyle,
+                      flex: 1,
+                      height: 40,
+                      lineHeight: "40px",
+                      fontSize: 14,
+                      background: active ? "rgba(255,255,255,0.92)" : "rgba(255,255,255,0.10)",
+                      color: active ? "#111827" : "#fff",
+                    }}
+                  >
+                    {on ? t.title.revealOn : t.title.revealOff}
+                  </button>
+                );
+              })}
+            </div>
+            {revealInput != null && (
+              <input
+                value={revealInput}
+                onChange={(e) => chooseRevealTurns(e.target.value)}
+                placeholder={t.title.revealPlaceholder}
+                style={{
+                  marginTop: 8,
+                  width: "100%",
+                  height: 40,
+                  boxSizing: "border-box",
+                  borderRadius: 12,
+                  border: "1px solid rgba(255,255,255,0.16)",
+                  background: "rgba(255,255,255,0.10)",
+                  color: "#fff",
+                  padding: "0 12px",
+                  fontSize: 14,
+                  fontFamily: "ui-monospace, monospace",
+                }}
+              />
+            )}
+            <div style={{ marginTop: 6, fontSize: 12, color: "rgba(255,255,255,0.78)" }}>
+              {revealInput == null
+                ? t.title.revealNone
+                : rules.revealTurns.length > 0
+                ? t.title.revealSummary(rules.revealTurns)
+                : t.title.revealEmpty(rules.maxTurn)}
+            </div>
+          </div>
+
+          <div style={{ marginTop: 14 }}>
+            <div style={{ fontSize: 12, fontWeight: 800, color: "rgba(255,255,255,0.78)" }}>{t.title.series}</div>
+            <div style={{ display: "flex", gap: 8, marginTop: 6 }}>
+              {SERIES_LENGTHS.map((n) => {
+                const active = n === seriesLength;
+                return (
+                  <button
+                    key={n}
+                    onClick={() => setSeriesLength(n)}
+                    style={{
+                      ...titleButtonStyle,
+                      flex: 1,
+                      height: 40,
+                      lineHeight: "40px",
+                      fontSize: 14,
+                      background: active ? "rgba(255,255,255,0.92)" : "rgba(255,255,255,0.10)",
+                      color: active ? "#111827" : "#fff",
+                    }}
+                  >
+                    {t.title.seriesGames(n)}
+                  </button>
+                );
+              })}
+            </div>
+            <div style={{ marginTop: 6, fontSize: 12, color: "rgba(255,255,255,0.78)" }}>
+              {seriesLength === 1 ? t.title.seriesNone : t.title.seriesSummary(seriesLength)}
+            </div>
+          </div>
+
+          {AI_LEVEL_SETTINGS.map(({ key, label, notes }) => (
+            <div key={key} style={{ marginTop: 14 }}>
+              <div style={{ fontSize: 12, fontWeight: 800, color: "rgba(255,255,255,0.78)" }}>{t.title[label]}</div>
+              <div style={{ display: "flex", gap: 8, marginTop: 6 }}>
+                {AI_LEVELS.map((level) => {
+                  const active = level === state[key];
+                  return (
+                    <button
+                      key={level}
+                      onClick={() => chooseAiLevel(key, level)}
+                      style={{
+                        ...titleButtonStyle,
+                        flex: 1,
+                        height: 40,
+                        lineHeight: "40px",
+                        fontSize: 14,
+                        background: active ? "rgba(255,255,255,0.92)" : "rgba(255,255,255,0.10)",
+                        color: active ? "#111827" : "#fff",
+                      }}
+                    >
+                      {t.title.aiLevels[level]}
+                    </button>
+                  );
+                })}
               </div>
+              <div style={{ marginTop: 6, fontSize: 12, color: "rgba(255,255,255,0.78)" }}>{t.title[notes][state[key]]}</div>
             </div>
-            <div style={{ fontSize: 34, opacity: 0.9 }}>🚁🔎🚗</div>
+          ))}
+
+          <div style={{ marginTop: 14 }}>
+            <div style={{ fontSize: 12, fontWeight: 800, color: "rgba(255,255,255,0.78)" }}>{t.title.seed}</div>
+            <input
+              value={seedInput}
+              onChange={(e) => setSeedInput(e.target.value)}
+              inputMode="numeric"
+              placeholder={t.title.seedPlaceholder}
+              style={{
+                marginTop: 6,
+                width: "100%",
+                height: 40,
+                boxSizing: "border-box",
+                borderRadius: 12,
+                border: "1px solid rgba(255,255,255,0.16)",
+                background: "rgba(255,255,255,0.10)",
+                color: "#fff",
+                padding: "0 12px",
+                fontSize: 14,
+                fontFamily: "ui-monospace, monospace",
+              }}
+            />
           </div>
 
-          <div style={{ display: "grid", gap: 10, marginTop: 14 }}>
-            <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
-              <button onClick={() => chooseRoleSingle("CRIMINAL")} style={{ ...titleButtonStyle, flex: 1, minWidth: 220 }}>
-                ソロ：犯人（警察AI）
-              </button>
-              <button
-                onClick={() => chooseRoleSingle("POLICE")}
+          <div style={{ marginTop: 14 }}>
+            <div style={{ fontSize: 12, fontWeight: 800, color: "rgba(255,255,255,0.78)" }}>{t.title.online}</div>
+            <div style={{ display: "flex", gap: 8, marginTop: 6 }}>
+              {(["POLICE", "CRIMINAL"] as const).map((role) => (
+                <button
+                  key={role}
+                  onClick={() => createOnlineRoom(role)}
+                  style={{
+                    ...titleButtonStyle,
+                    flex: 1,
+                    height: 40,
+                    lineHeight: "40px",
+                    fontSize: 14,
+                    background: "rgba(255,255,255,0.10)",
+                  }}
+                >
+                  {t.title.createRoom[role]}
+                </button>
+              ))}
+            </div>
+            <div style={{ display: "flex", gap: 8, marginTop: 8 }}>
+              <input
+                value={roomCodeInput}
+                onChange={(e) => setRoomCodeInput(e.target.value)}
+                placeholder={t.title.roomCodePlaceholder}
+                maxLength={8}
                 style={{
-                  ...titleButtonStyle,
                   flex: 1,
-                  minWidth: 220,
-                  background: "linear-gradient(135deg, rgba(14,165,233,0.92), rgba(59,130,246,0.92))",
-                  border: "1px solid rgba(255,255,255,0.18)",
+                  minWidth: 0,
+                  height: 40,
+                  boxSizing: "border-box",
+                  borderRadius: 12,
+                  border: "1px solid rgba(255,255,255,0.16)",
+                  background: "rgba(255,255,255,0.10)",
+                  color: "#fff",
+                  padding: "0 12px",
+                  fontSize: 14,
+                  fontFamily: "ui-monospace, monospace",
+                  textTransform: "uppercase",
                 }}
+              />
+              <button
+                onClick={joinOnlineRoom}
+                style={{ ...titleButtonStyle, flex: "0 0 96px", height: 40, lineHeight: "40px", fontSize: 14, background: "rgba(255,255,255,0.92)", color: "#111827" }}
               >
-                ソロ：警察（犯人AI）
+                {t.title.join}
+              </button>
+              <button
+                onClick={watchOnlineRoom}
+                style={{ ...titleButtonStyle, flex: "0 0 96px", height: 40, lineHeight: "40px", fontSize: 14, background: "rgba(255,255,255,0.10)" }}
+              >
+                {t.title.watch}
               </button>
             </div>
-
-            <button
-              onClick={choosePassPlay}
-              style={{
-                ...titleButtonStyle,
-                background: "linear-gradient(135deg, rgba(34,197,94,0.92), rgba(16,185,129,0.92))",
-                border: "1px solid rgba(255,255,255,0.18)",
-              }}
-            >
-              友達と対戦（同じ端末で交代）
-            </button>
+            {online && (
+              <div style={{ marginTop: 6, fontSize: 12, color: online.error ? "#fca5a5" : "rgba(255,255,255,0.78)" }}>
+                {online.error ? t.onlineErrors[online.error] ?? online.error : t.title.connecting}
+              </div>
+            )}
+            <div style={{ marginTop: 6, fontSize: 12, color: "rgba(255,255,255,0.6)" }}>
+              {t.title.serverNote}
+            </div>
           </div>
         </header>
       ) : (
@@ -1494,56 +1716,156 @@ export default function App() {
 
               <div style={{ fontSize: 24, fontWeight: 900 }}>{winnerText}</div>
               <div style={{ fontSize: 13, fontWeight: 700, color: "#374151" }}>{winnerSub}</div>
+              <div style={{ display: "flex", alignItems: "center", gap: 8, marginTop: 8, flexWrap: "wrap" }}>
+                <span style={{ fontSize: 12, fontWeight: 700, color: "#374151" }}>
+                  {t.result.seed}
+                  <span style={{ fontFamily: "ui-monospace, monospace", userSelect: "all" }}>{state.seed}</span>
+                </span>
+                {state.mode !== "ONLINE" && !state.series && (
+                  <button
+                    onClick={rematchSameSeed}
+                    style={{ ...baseButtonStyle, height: 30, lineHeight: "30px", fontSize: 12, fontWeight: 800, padding: "0 10px" }}
+                  >
+                    {t.result.sameSeed}
+                  </button>
+                )}
+              </div>
             </div>
           )}
 
           <div style={{ display: "flex", alignItems: "baseline", justifyContent: "space-between", gap: 12, flexWrap: "wrap", minWidth: 0 }}>
             <div style={{ fontSize: 26, fontWeight: 900 }}>
-              Turn <span style={{ fontSize: 34 }}>{state.turn}</span>
-              <span style={{ fontSize: 16, fontWeight: 700, color: "#666" }}> / {MAX_TURN}</span>
+              Turn <span style={{ fontSize: 34 }}>{view.turn}</span>
+              <span style={{ fontSize: 16, fontWeight: 700, color: "#666" }}> / {rules.maxTurn}</span>
+              {rules.revealTurns.length > 0 && (
+                <div style={{ fontSize: 12, fontWeight: 700, color: "#6d28d9" }}>
+                  {t.game.revealTurns(rules.revealTurns)}
+                  {nextRevealTurn != null && state.phase !== "END" ? t.game.nextReveal(nextRevealTurn) : ""}
+                </div>
+              )}
             </div>
 
             <div style={{ textAlign: "right" }}>
               <div style={{ fontSize: 22, fontWeight: 900 }}>{phaseLabel}</div>
               <div style={{ fontSize: 18, fontWeight: 900, color: "#111" }}>
-                行動残り：{state.phase === "POLICE_TURN" || state.phase === "POLICE_AI_TURN" ? state.actionsLeft : "-"}
+                {t.game.actionsLeft}
+                {state.phase === "POLICE_TURN" || state.phase === "POLICE_AI_TURN" ? state.actionsLeft : "-"}
               </div>
             </div>
           </div>
 
           <div style={{ display: "flex", gap: 8, marginTop: 10 }}>
+            {!isSpectator && (
+              <button
+                onClick={rematch}
+                style={{
+                  ...baseButtonStyle,
+                  height: 38,
+                  lineHeight: "38px",
+                  flex: 1,
+                  fontSize: 14,
+                  fontWeight: 900,
+                  background: "#111827",
+                  color: "#fff",
+                  border: "1px solid rgba(17,24,39,0.18)",
+                }}
+              >
+                {rematchLabel}
+              </button>
+            )}
+
             <button
-              onClick={rematch}
+              onClick={reset}
               style={{
                 ...baseButtonStyle,
                 height: 38,
                 lineHeight: "38px",
                 flex: 1,
                 fontSize: 14,
-                fontWeight: 900,
-                background: "#111827",
-                color: "#fff",
-                border: "1px solid rgba(17,24,39,0.18)",
+                fontWeight: 800,
               }}
             >
-              再戦する
+              {isSpectator ? t.game.stopWatching : t.game.backToTitle}
             </button>
 
             <button
-              onClick={reset}
-              style={{
-                ...baseButtonStyle,
-                height: 38,
-                lineHeight: "38px",
-                flex: 1,
-                fontSize: 14,
-                fontWeight: 800,
-              }}
+              onClick={() => chooseFeedback({ ...feedback, muted: !feedback.muted })}
+              aria-label={t.feedback.sound(!feedback.muted)}
+              title={t.feedback.sound(!feedback.muted)}
+              style={{ ...baseButtonStyle, height: 38, lineHeight: "38px", flex: "0 0 48px", padding: 0, fontSize: 18 }}
             >
-              タイトルへ戻る
+              {feedback.muted ? "🔇" : "🔊"}
             </button>
           </div>
 
+          {state.series && <SeriesScoreboard series={state.series} maxTurn={rules.maxTurn} t={t} />}
+
+          {isSpectator && spectator ? (
+            <div style={{ marginTop: 10 }}>
+              <div style={{ fontSize: 12, fontWeight: 800, color: "#374151" }}>{t.game.spectatorView}</div>
+              <div style={{ display: "flex", gap: 8, marginTop: 6 }}>
+                {(["POLICE", "CRIMINAL", "OMNISCIENT"] as const).map((v) => (
+                  <button
+                    key={v}
+                    onClick={() => chooseSpectatorView(v)}
+                    style={{
+                      ...baseButtonStyle,
+                      flex: 1,
+                      height: 34,
+                      lineHeight: "34px",
+                      fontSize: 13,
+                      fontWeight: 800,
+                      background: spectator.view === v ? "#111827" : "#ffffff",
+                      color: spectator.view === v ? "#ffffff" : "#111827",
+                    }}
+                  >
+                    {t.game.spectatorViews[v]}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ) : (
+            state.mode !== "ONLINE" && (
+              <button
+                onClick={openSpectatorWindow}
+                style={{ ...baseButtonStyle, width: "100%", marginTop: 8, height: 32, lineHeight: "32px", fontSize: 12, fontWeight: 800 }}
+              >
+                {t.game.openSpectator}
+              </button>
+            )
+          )}
+
+          {state.mode === "ONLINE" && online && (
+            <div
+              style={{
+                marginTop: 10,
+                padding: "8px 10px",
+                borderRadius: 12,
+                background: "#eff6ff",
+                border: "1px solid #bfdbfe",
+                display: "flex",
+                gap: 10,
+                flexWrap: "wrap",
+                fontSize: 13,
+                fontWeight: 800,
+                color: "#1e3a8a",
+              }}
+            >
+              <span>
+                {t.game.roomCode}
+                <span style={{ fontFamily: "ui-monospace, monospace", userSelect: "all" }}>{online.code ?? "…"}</span>
+              </span>
+              {isSpectator ? (
+                <span>{t.game.watching}</span>
+              ) : (
+                <>
+                  <span>{t.game.you(t.roles[state.role ?? "POLICE"])}</span>
+                  <span>{t.game.opponent(online.opponent)}</span>
+                </>
+              )}
+              {online.error && <span style={{ color: "#b91c1c" }}>{t.onlineErrors[online.error] ?? online.error}</span>}
+            </div>
+          )}
 
           <div
             style={{
@@ -1555,15 +1877,32 @@ export default function App() {
               wordBreak: "break-word",
               minHeight: 44,
             }}
+            role="status"
+            aria-live="polite"
           >
-            {state.phase === "POLICE_SETUP" && (state.mode === "PASS_PLAY" ? "友達対戦：警察がヘリを3機配置（交差点タップ）。" : "警察：ヘリを3機配置してください（交差点タップ）。")}
-            {state.phase === "POLICE_TURN" &&
-              (policeSearchMode ? "警察：捜索モード（周囲4ビルのどれか1つをタップ）" : "警察：移動モード（隣接交差点へ移動）")}
-            {state.phase === "CRIMINAL_AI_MOVING" && "犯人AIが移動中…"}
-            {state.phase === "CRIMINAL_HIDE" && "犯人：最初に隠れるビルをタップして決めてください。"}
-            {state.phase === "POLICE_AI_TURN" && (state.policeAiThinking ? "警察AIが行動中（推理＆揺さぶり）…" : "警察AIのターン")}
-            {state.phase === "CRIMINAL_MOVE" && "犯人：移動候補（隣接かつ未訪問）だけ明るく表示（再訪不可）。"}
-            {state.phase === "END" && (state.winner === "CRIMINAL" ? "犯人の勝ち" : "警察の勝ち") + "：白線が犯人ルートです（S=開始 / E=終了）。"}
+            {latestAnnouncement && latestAnnouncement.turn === state.turn && state.phase !== "END" && (
+              <div style={{ fontWeight: 800, color: "#6d28d9" }}>{t.hints.announced(latestAnnouncement.turn)}</div>
+            )}
+            {lastSearch && lastSearch.result !== "CAUGHT" && (state.phase === "POLICE_TURN" || state.phase === "POLICE_AI_TURN") && (
+              <div style={{ fontWeight: 800 }}>{t.a11y.search(unitLabel(lastSearch.heli), cellName(lastSearch.target), lastSearch.result)}</div>
+            )}
+            {isOpponentOnlineTurn && t.hints.opponentTurn}
+            {!isOpponentOnlineTurn && state.phase === "POLICE_SETUP" && (state.mode === "PASS_PLAY"
+                ? t.hints.setupPassPlay(unitsSummary(rules.units), rules.units.some(onCell))
+                : t.hints.setup(unitsSummary(rules.units), rules.units.some(onCell)))}
+            {!isOpponentOnlineTurn && state.phase === "POLICE_TURN" &&
+              (policeMode === "SEARCH" ? t.hints.policeSearch : policeMode === "ROADBLOCK" ? t.roadblocks.hint : t.hints.policeMove)}
+            {state.phase === "CRIMINAL_AI_MOVING" && t.hints.criminalAiMoving}
+            {multiCriminal && state.phase !== "END" && (
+              <div style={{ fontWeight: 800 }}>
+                {t.game.caughtCount(state.criminals.filter((cr) => cr.caught).length, rules.criminalCount)}
+                {mover != null && knowledge !== "POLICE" && <> {t.hints.criminalTurn(criminalLabel(mover))}</>}
+              </div>
+            )}
+            {!isOpponentOnlineTurn && state.phase === "CRIMINAL_HIDE" && t.hints.criminalHide}
+            {state.phase === "POLICE_AI_TURN" && (state.policeAiThinking ? t.hints.policeAiThinking : t.hints.policeAiTurn)}
+            {!isOpponentOnlineTurn && state.phase === "CRIMINAL_MOVE" && t.hints.criminalMove}
+            {state.phase === "END" && state.winner && t.hints.end(state.winner, rules.criminalCount)}
           </div>
         </header>
       )}
@@ -1580,40 +1919,177 @@ export default function App() {
 
 
         <section>
-          <div ref={boardRef} style={{ position: "relative", width: boardSize, height: boardSize, margin: "0 auto", flex: "0 0 auto" }}>
-
-            <div style={{ position: "absolute", inset: 0, borderRadius: 16, background: "#94a3b8" }} />
+          <div
+            ref={boardRef}
+            onKeyDown={onBoardKeyDown}
+            onFocus={(e) => setKeyboardFocus(e.target.matches(":focus-visible"))}
+            onBlur={(e) => {
+              if (!e.currentTarget.contains(e.relatedTarget)) setKeyboardFocus(false);
+            }}
+            style={{ position: "relative", width: boardSize, height: boardSize, margin: "0 auto", flex: "0 0 auto" }}
+          >
 
-            <div
-              style={{
-                position: "absolute",
-                inset: 0,
-                display: "grid",
-                gridTemplateColumns: `repeat(${GRID}, 1fr)`,
-                gridTemplateRows: `repeat(${GRID}, 1fr)`,
-                gap: ROAD_GAP,
-                border: "2px solid #0f172a",
-                borderRadius: 16,
-                overflow: "hidden",
-                background: "transparent",
-              }}
-            >
-              {allCells.map((c) => {
+            <BoardGrid
+              rules={rules}
+              roadGap={roadGap}
+              label={t.a11y.board}
+              cellStyle={cellStyle}
+              cellProps={(c) => ({
+                id: `board-cell-${c.r}-${c.c}`,
+                tabIndex: cursorLayer === "CELL" && focusAt.r === c.r && focusAt.c === c.c ? 0 : -1,
+                "aria-label": cellAriaLabel(c),
+                onFocus: () => setCursor(c),
+              })}
+              onCellClick={(c) => (canTapCell(c) ? onCellTap(c) : undefined)}
+              renderCell={(c) => {
                 const k = keyCell(c);
-                const style = cellStyle(c);
-                const tappable = canTapCell(c);
+                if (isBlocked(c, rules)) return <span style={{ fontSize: 22 }}>🌳</span>;
 
-                const isTrace = !!state.revealed[k];
-                const showCar = shouldShowCarNow(c);
+                const isTrace = !!view.revealed[k];
+                const cars = carsAt(c);
+                // 複数犯人モード：見つかった痕跡がどの犯人のものか
+                const traceBy = isTrace && multiCriminal ? visitorsOf(traceCriminals, k) : [];
 
                 // ✅ 捜索マーク：ソロ犯人の犯人手番中に、同ターンの3つを表示
-                const mark = showPoliceSearchMarks
+                // リプレイ中はそのコマの捜索を表示
+                const replaySearch = replayFrame?.event.kind === "SEARCH" ? replayFrame.event : null;
+                const mark = replaySearch
+                  ? replaySearch.target.r === c.r && replaySearch.target.c === c.c
+                    ? { heliIndex: replaySearch.heli }
+                    : undefined
+                  : showPoliceSearchMarks
                   ? state.lastPoliceSearches.find((m) => m.turn === state.turn && m.target.r === c.r && m.target.c === c.c)
                   : undefined;
 
+                // 推理オーバーレイ：いるかもしれないビルに出して、この位置で終わる経路が多いほど濃く
+                const possible = deduction?.possible[c.r][c.c] ?? false;
+                const paths = deduction ? deduction.endCount[c.r][c.c] : 0;
+
+                // 逃走ヒント：移動できるビルに危険度を出す
+                const risk = escapeRisks?.get(k);
+
+                // 位置公開：公開されたターンを表示
+                const announced = shownAnnouncements.get(k);
+
+                // 特別なビル（トンネル・高速道路・屋上）
+                const terrain = terrainOf(c, rules);
+
+                // ロードブロック：あと何ターン封鎖しているか
+                const roadblock = shownRoadblocks.get(k);
+
                 return (
-                  <div key={k} style={style} onClick={() => (tappable ? onCellTap(c) : undefined)}>
-                    {showCar ? <span style={{ fontSize: 22 }}>🚗</span> : null}
+                  <>
+                    {possible ? (
+                      <span
+                        style={{
+                          position: "absolute",
+                          inset: 0,
+                          background: `rgba(255,255,255,${0.15 + 0.55 * (deductionMax > 0 ? paths / deductionMax : 0)})`,
+                          border: "2px dashed rgba(255,255,255,0.9)",
+                          borderRadius: "inherit",
+                          boxSizing: "border-box",
+                          pointerEvents: "none",
+                        }}
+                        title={t.board.paths(paths, deduction?.exact ?? true)}
+                      />
+                    ) : null}
+
+                    {risk ? (
+                      <span
+                        style={{
+                          position: "absolute",
+                          left: 4,
+                          top: 4,
+                          padding: "1px 6px",
+                          borderRadius: 999,
+                          background: risk.danger >= 70 ? "#ef4444" : risk.danger >= 30 ? "#f59e0b" : "#22c55e",
+                          color: "#fff",
+                          fontSize: 11,
+                          fontWeight: 900,
+                          boxShadow: "0 2px 6px rgba(0,0,0,0.25)",
+                          pointerEvents: "none",
+                          whiteSpace: "nowrap",
+                        }}
+                        title={
+                          risk.deadEnd ? t.board.deadEnd : t.board.risk(risk.searchableNow, risk.searchableAfterMove)
+                        }
+                      >
+                        {risk.deadEnd ? "⛔" : risk.searchableNow > 0 ? "🚁" : ""}
+                        {risk.danger}
+                      </span>
+                    ) : null}
+
+                    {roadblock ? (
+                      <span
+                        style={{
+                          position: "absolute",
+                          left: 4,
+                          top: 4,
+                          padding: "1px 6px",
+                          borderRadius: 999,
+                          background: "#f59e0b",
+                          color: "#111827",
+                          fontSize: 11,
+                          fontWeight: 900,
+                          boxShadow: "0 2px 6px rgba(0,0,0,0.25)",
+                          pointerEvents: "none",
+                          whiteSpace: "nowrap",
+                        }}
+                        title={t.roadblocks.left(roadblockTurnsLeft(roadblock, view.turn))}
+                      >
+                        🚧{roadblockTurnsLeft(roadblock, view.turn)}
+                      </span>
+                    ) : null}
+
+                    {announced ? (
+                      <span
+                        style={{
+                          position: "absolute",
+                          right: 4,
+                          top: 4,
+                          padding: "1px 6px",
+                          borderRadius: 999,
+                          background: multiCriminal ? getCriminalColor(announced.criminal) : "#7c3aed",
+                          color: "#fff",
+                          fontSize: 11,
+                          fontWeight: 900,
+                          boxShadow: "0 2px 6px rgba(0,0,0,0.25)",
+                          pointerEvents: "none",
+                          whiteSpace: "nowrap",
+                        }}
+                        title={t.board.announced(announced.turn)}
+                      >
+                        📢{announced.turn}
+                      </span>
+                    ) : null}
+
+                    {cars.map((i) => (
+                      <span
+                        key={i}
+                        style={
+                          multiCriminal
+                            ? { fontSize: 20, borderRadius: 999, padding: "0 2px", boxShadow: `0 0 0 2px ${getCriminalColor(i)}` }
+                            : { fontSize: 22 }
+                        }
+                        title={criminalLabel(i)}
+                      >
+                        🚗
+                      </span>
+                    ))}
+
+                    {traceBy.length > 0 ? (
+                      <span style={{ position: "absolute", left: 4, bottom: 4, display: "flex", gap: 2, pointerEvents: "none" }}>
+                        {traceBy.map((i) => (
+                          <span
+                            key={i}
+                            style={{ width: 8, height: 8, borderRadius: 999, background: getCriminalColor(i), border: "1px solid #fff" }}
+                            title={criminalLabel(i)}
+                          />
+                        ))}
+                      </span>
+                    ) : null}
+
+                    {terrain ? <TerrainBadge terrain={terrain} /> : null}
 
                     {isTrace ? (
                       <span
@@ -1653,69 +2129,92 @@ export default function App() {
                           fontSize: 12,
                           pointerEvents: "none",
                         }}
-                        title="警察の直前捜索"
+                        title={t.board.lastSearch}
                       >
                         🔎
                       </span>
                     ) : null}
-                  </div>
+                  </>
                 );
-              })}
-            </div>
+              }}
+            />
+
+            <MapRoads rules={rules} roadGap={roadGap} t={t} />
 
-            {state.phase === "END" && routePoints.length > 0 && (
+            {routes.length > 0 && (
               <svg viewBox="0 0 100 100" preserveAspectRatio="none" style={{ position: "absolute", inset: 0, borderRadius: 16, pointerEvents: "none" }}>
-                <polyline points={polylinePoints} fill="none" stroke="rgba(255,255,255,0.90)" strokeWidth="1.8" strokeLinejoin="round" strokeLinecap="round" />
-                {routePoints.map((p, i) => (
-                  <circle
-                    key={i}
-                    cx={p.x}
-                    cy={p.y}
-                    r={i === 0 || i === routePoints.length - 1 ? 2.2 : 1.6}
-                    fill={i === 0 ? "rgba(34,197,94,0.95)" : i === routePoints.length - 1 ? "rgba(239,68,68,0.95)" : "rgba(255,255,255,0.85)"}
-                    stroke="rgba(0,0,0,0.25)"
-                    strokeWidth="0.4"
-                  />
-                ))}
-                <text x={routePoints[0].x + 1.6} y={routePoints[0].y - 1.6} fontSize="3.6" fill="rgba(34,197,94,0.95)" fontWeight="700">
-                  S
-                </text>
-                <text
-                  x={routePoints[routePoints.length - 1].x + 1.6}
-                  y={routePoints[routePoints.length - 1].y - 1.6}
-                  fontSize="3.6"
-                  fill="rgba(239,68,68,0.95)"
-                  fontWeight="700"
-                >
-                  E
-                </text>
+                {routes.map(({ criminal, points, done }) => {
+                  if (points.length === 0) return null;
+                  // 犯人が1人なら白線、複数なら犯人ごとの色
+                  const stroke = multiCriminal ? getCriminalColor(criminal) : "rgba(255,255,255,0.90)";
+                  return (
+                    <g key={criminal}>
+                      <polyline
+                        points={points.map((p) => `${p.x},${p.y}`).join(" ")}
+                        fill="none"
+                        stroke={stroke}
+                        strokeWidth="1.8"
+                        strokeLinejoin="round"
+                        strokeLinecap="round"
+                      />
+                      {points.map((p, i) => {
+                        const isEnd = done && i === points.length - 1;
+                        return (
+                          <g key={i}>
+                            <circle
+                              cx={p.x}
+                              cy={p.y}
+                              r={i === 0 || isEnd ? 2.2 : 1.6}
+                              fill={i === 0 ? "rgba(34,197,94,0.95)" : isEnd ? "rgba(239,68,68,0.95)" : "rgba(255,255,255,0.85)"}
+                              stroke="rgba(0,0,0,0.25)"
+                              strokeWidth="0.4"
+                            />
+                            {/* そのマスにいたターン */}
+                            {p.turn != null && (
+                              <text
+                                x={p.x - 1.6}
+                                y={p.y + 4.6}
+                                fontSize="2.8"
+                                textAnchor="end"
+                                fill="#fff"
+                                stroke="rgba(0,0,0,0.55)"
+                                strokeWidth="0.5"
+                                paintOrder="stroke"
+                                fontWeight="700"
+                              >
+                                {p.turn}
+                              </text>
+                            )}
+                          </g>
+                        );
+                      })}
+                      <text x={points[0].x + 1.6} y={points[0].y - 1.6} fontSize="3.6" fill="rgba(34,197,94,0.95)" fontWeight="700">
+                        {multiCriminal ? `S${criminal + 1}` : "S"}
+                      </text>
+                      {done && (
+                        <text
+                          x={points[points.length - 1].x + 1.6}
+                          y={points[points.length - 1].y - 1.6}
+                          fontSize="3.6"
+                          fill="rgba(239,68,68,0.95)"
+                          fontWeight="700"
+                        >
+                          {multiCriminal ? `E${criminal + 1}` : "E"}
+                        </text>
+                      )}
+                    </g>
+                  );
+                })}
               </svg>
             )}
 
             {allNodes.map((n) => {
               const k = keyNode(n);
-              const placedIndex = state.helicopters.findIndex((h) => keyNode(h) === k);
+              const placedIndex = airUnitAt(view, n);
               const placed = placedIndex >= 0;
 
-              const isSelected = state.selectedHeli != null && placedIndex === state.selectedHeli;
-              const acted = placedIndex >= 0 ? state.heliActed[placedIndex] : false;
-
-              // fallback（boardPxがまだ0の時用）
-              const leftPct = ((n.c + 1) / GRID) * 100;
-              const topPct = ((n.r + 1) / GRID) * 100;
-
-              // gap込みのpx計算：交差点（道路の中央）
-              const totalGap = (GRID - 1) * ROAD_GAP;
-              const cellPx = boardPx > 0 ? (boardPx - totalGap) / GRID : 0;
-
-              const leftPx = boardPx > 0
-                ? (n.c + 1) * cellPx + n.c * ROAD_GAP + ROAD_GAP / 2
-                : 0;
-
-              const topPx = boardPx > 0
-                ? (n.r + 1) * cellPx + n.r * ROAD_GAP + ROAD_GAP / 2
-                : 0;
-
+              const isSelected = view.selectedHeli != null && placedIndex === view.selectedHeli;
+              const acted = placedIndex >= 0 ? view.heliActed[placedIndex] : false;
 
               let isMoveCandidate = false;
               if (
@@ -1723,55 +2222,95 @@ export default function App() {
                 state.selectedHeli != null &&
                 state.actionsLeft > 0 &&
                 !state.heliActed[state.selectedHeli] &&
-                !state.criminalMoving
+                !state.criminalMoving &&
+                !selectedGround
               ) {
-                const from = state.helicopters[state.selectedHeli];
-                isMoveCandidate = neighborsNode(from).some((x) => keyNode(x) === k);
+                isMoveCandidate = unitMoves(state, state.selectedHeli).some((x) => keyNode(x) === k);
               }
 
-              const heliColor = placed ? getHeliColor(placedIndex) : "rgba(255,255,255,0.85)";
-              const clickable = (state.phase === "POLICE_SETUP" || state.phase === "POLICE_TURN") && !(state.mode === "PASS_PLAY" && state.viewer !== "POLICE");
+              const clickable = (state.phase === "POLICE_SETUP" || state.phase === "POLICE_TURN") && !isSpectator && !(state.mode !== "SINGLE" && state.viewer !== "POLICE");
+              const focused = cursorLayer === "NODE" && focusAt.r === n.r && focusAt.c === n.c;
+
+              const details: string[] = [];
+              if (placed) details.push(unitLabel(placedIndex));
+              if (isSelected) details.push(t.a11y.selected);
+              if (placed && acted) details.push(t.a11y.acted);
+              if (isMoveCandidate) details.push(t.a11y.movable);
 
+              // ヘリの見た目は下の別レイヤー（移動を動かすため）。交差点のボタンはタップと読み上げ用
               return (
                 <button
                   key={k}
-                  onClick={() => (clickable ? onNodeTap(n) : undefined)}
-                  disabled={!clickable || state.criminalMoving}
+                  id={`board-node-${n.r}-${n.c}`}
+                  tabIndex={focused ? 0 : -1}
+                  aria-label={t.a11y.node(nodeName(n), details)}
+                  onFocus={() => setCursor(n)}
+                  // フォーカスできるように disabled ではなく aria-disabled にする
+                  onClick={() => (clickable && !state.criminalMoving ? onNodeTap(n) : undefined)}
+                  aria-disabled={!clickable || state.criminalMoving}
                   style={{
                     position: "absolute",
-                    left: boardPx > 0 ? `${leftPx}px` : `${leftPct}%`,
-                    top:  boardPx > 0 ? `${topPx}px`  : `${topPct}%`,
+                    ...nodePosition(n),
                     transform: "translate(-50%, -50%)",
-                    width: 44,
-                    height: 44,
+                    width: nodePx,
+                    height: nodePx,
                     borderRadius: 999,
                     border:
                       state.phase === "POLICE_SETUP"
-                        ? placed
-                          ? "3px solid #111827"
-                          : "3px solid rgba(255,255,255,0.7)"
-                        : placed
-                        ? `3px solid ${isSelected ? "#0ea5e9" : "#111827"}`
+                        ? "3px solid rgba(255,255,255,0.7)"
                         : isMoveCandidate
                         ? "3px solid #0ea5e9"
                         : "2px solid rgba(17,24,39,0.45)",
-                    background: heliColor,
-                    boxShadow: "0 6px 16px rgba(0,0,0,0.22)",
+                    background: "rgba(255,255,255,0.85)",
+                    boxShadow: keyboardFocus && focused ? "0 0 0 4px #facc15, 0 6px 16px rgba(0,0,0,0.22)" : "0 6px 16px rgba(0,0,0,0.22)",
                     fontSize: 18,
                     fontWeight: 900,
                     cursor: !clickable || state.criminalMoving ? "not-allowed" : "pointer",
-                    opacity: placed && acted ? 0.55 : 1,
-                    color: placedIndex === 2 ? "#111" : "#fff",
+                    color: "#fff",
                     appearance: "none",
                     WebkitAppearance: "none",
                     outline: "none",
                   }}
                 >
-                  {placed ? "🚁" : "·"}
+                  {placed ? "" : "·"}
                 </button>
               );
             })}
 
+            {/* 部隊：番号ごとに同じ要素を動かすので、移動（AIの1手ずつも）がなめらかに見える。地上部隊はビルの真ん中 */}
+            {view.helicopters.map((h, i) => {
+              const isSelected = view.selectedHeli === i;
+              const kind = view.heliKinds[i];
+              return (
+                <div
+                  key={i}
+                  aria-hidden="true"
+                  style={{
+                    position: "absolute",
+                    ...(onCell(kind) ? cellPosition(h) : nodePosition(h)),
+                    transform: "translate(-50%, -50%)",
+                    width: nodePx,
+                    height: nodePx,
+                    boxSizing: "border-box",
+                    borderRadius: 999,
+                    display: "flex",
+                    alignItems: "center",
+                    justifyContent: "center",
+                    border: state.phase === "POLICE_SETUP" ? "3px solid #111827" : `3px solid ${isSelected ? "#0ea5e9" : "#111827"}`,
+                    background: getHeliColor(i),
+                    boxShadow: "0 6px 16px rgba(0,0,0,0.22)",
+                    fontSize: 18,
+                    opacity: view.heliActed[i] ? 0.55 : 1,
+                    pointerEvents: "none",
+                    // 配置中は付け外しで番号がずれるので動かさない
+                    transition: animateHelis ? `left ${HELI_MOVE_MS}ms ease-in-out, top ${HELI_MOVE_MS}ms ease-in-out` : "none",
+                  }}
+                >
+                  {UNIT_ICONS[kind]}
+                </div>
+              );
+            })}
+
             {(state.phase === "POLICE_AI_TURN" || state.phase === "CRIMINAL_AI_MOVING") && (
               <div
                 style={{
@@ -1797,13 +2336,13 @@ export default function App() {
                     textAlign: "center",
                   }}
                 >
-                  <div style={{ fontSize: 18, fontWeight: 900 }}>{state.phase === "POLICE_AI_TURN" ? "警察AIが行動中…" : "犯人AIが移動中…"}</div>
+                  <div style={{ fontSize: 18, fontWeight: 900 }}>{state.phase === "POLICE_AI_TURN" ? t.overlay.policeAi : t.overlay.criminalAi}</div>
                   <div style={{ fontSize: 26, marginTop: 10 }}>{state.phase === "POLICE_AI_TURN" ? "🚁🔎" : "🚗💨"}</div>
                 </div>
               </div>
             )}
 
-            {state.handoff.show && (
+            {state.handoff.show && !isSpectator && (
               <div
                 style={{
                   position: "absolute",
@@ -1817,6 +2356,9 @@ export default function App() {
                 }}
               >
                 <div
+                  role="dialog"
+                  aria-modal="true"
+                  aria-labelledby="handoff-title"
                   style={{
                     background: "#111827",
                     color: "#fff",
@@ -1827,9 +2369,12 @@ export default function App() {
                     textAlign: "center",
                   }}
                 >
-                  <div style={{ fontSize: 18, fontWeight: 900 }}>{state.handoff.to === "POLICE" ? "🚓 警察の番" : "🚗 犯人の番"}</div>
-                  <div style={{ fontSize: 13, marginTop: 10, opacity: 0.95, lineHeight: 1.45 }}>{state.handoff.message}</div>
+                  <div id="handoff-title" style={{ fontSize: 18, fontWeight: 900 }}>
+                    {t.handoff.title[state.handoff.to]}
+                  </div>
+                  <div style={{ fontSize: 13, marginTop: 10, opacity: 0.95, lineHeight: 1.45 }}>{state.handoff.message && handoffText(t, state.handoff.message)}</div>
                   <button
+                    autoFocus
                     onClick={acceptHandoff}
                     style={{
                       ...baseButtonStyle,
@@ -1839,23 +2384,33 @@ export default function App() {
                       color: "#111827",
                     }}
                   >
-                    準備OK（見ている人だけ押す）
+                    {t.handoff.ready}
                   </button>
                 </div>
               </div>
             )}
           </div>
 
-          {state.phase === "POLICE_SETUP" && (
+          {!isSpectator && state.phase !== "END" && (
+            <div style={{ marginTop: 6, fontSize: 11, color: "#6b7280", textAlign: "center" }}>{t.a11y.keyHelp(rules.units.length, rules.roadblockTurns > 0)}</div>
+          )}
+
+          {mapTerrains.map((kind) => (
+            <div key={kind} style={{ marginTop: 4, fontSize: 12, color: "#374151", textAlign: "center" }}>
+              <TerrainBadge terrain={kind} inline /> {t.terrain.legend(t.terrain.names[kind], t.terrain.help[kind])}
+            </div>
+          ))}
+
+          {state.phase === "POLICE_SETUP" && state.viewer === "POLICE" && (
             <div style={{ display: "flex", gap: 8, marginTop: 12 }}>
               <button
-                onClick={() => setState((s) => ({ ...s, helicopters: [], selectedHeli: null }))}
+                onClick={() => dispatch({ type: "CLEAR_HELIS" })}
                 style={{ ...baseButtonStyle, flex: 1, height: 44, lineHeight: "44px", fontSize: 14, fontWeight: 800 }}
               >
-                配置をやり直す
+                {t.controls.clearHelis}
               </button>
               <button
-                disabled={state.helicopters.length !== 3}
+                disabled={state.helicopters.length !== rules.units.length}
                 onClick={startFromSetup}
                 style={{
                   ...baseButtonStyle,
@@ -1864,32 +2419,32 @@ export default function App() {
                   lineHeight: "44px",
                   fontSize: 14,
                   fontWeight: 900,
-                  background: state.helicopters.length === 3 ? "#111827" : "#e5e7eb",
-                  color: state.helicopters.length === 3 ? "#fff" : "#6b7280",
-                  cursor: state.helicopters.length === 3 ? "pointer" : "not-allowed",
+                  background: state.helicopters.length === rules.units.length ? "#111827" : "#e5e7eb",
+                  color: state.helicopters.length === rules.units.length ? "#fff" : "#6b7280",
+                  cursor: state.helicopters.length === rules.units.length ? "pointer" : "not-allowed",
                 }}
               >
-                この配置で開始
+                {t.controls.startSetup}
               </button>
             </div>
           )}
 
-          {state.phase === "POLICE_TURN" && (
+          {state.phase === "POLICE_TURN" && state.viewer === "POLICE" && (
             <div style={{ display: "grid", gap: 10, marginTop: 12 }}>
               <div style={{ display: "flex", gap: 8 }}>
                 <button
-                  disabled={!currentHeliCanAct()}
+                  disabled={!currentHeliCanSearch()}
                   onClick={setPoliceModeSearch}
                   style={{
                     ...baseButtonStyle,
                     flex: 1,
-                    background: policeSearchMode ? "#111827" : "#ffffff",
-                    color: policeSearchMode ? "#ffffff" : "#111827",
-                    cursor: currentHeliCanAct() ? "pointer" : "not-allowed",
-                    opacity: currentHeliCanAct() ? 1 : 0.55,
+                    background: policeMode === "SEARCH" ? "#111827" : "#ffffff",
+                    color: policeMode === "SEARCH" ? "#ffffff" : "#111827",
+                    cursor: currentHeliCanSearch() ? "pointer" : "not-allowed",
+                    opacity: currentHeliCanSearch() ? 1 : 0.55,
                   }}
                 >
-                  捜索する
+                  {t.controls.search}
                 </button>
 
                 <button
@@ -1897,21 +2452,135 @@ export default function App() {
                   style={{
                     ...baseButtonStyle,
                     flex: 1,
-                    background: !policeSearchMode ? "#111827" : "#ffffff",
-                    color: !policeSearchMode ? "#ffffff" : "#111827",
+                    background: policeMode === "MOVE" ? "#111827" : "#ffffff",
+                    color: policeMode === "MOVE" ? "#ffffff" : "#111827",
                   }}
                 >
-                  移動する
+                  {t.controls.move}
                 </button>
+
+                {rules.roadblockTurns > 0 && (
+                  <button
+                    disabled={!currentHeliCanAct()}
+                    onClick={setPoliceModeRoadblock}
+                    style={{
+                      ...baseButtonStyle,
+                      flex: 1,
+                      background: policeMode === "ROADBLOCK" ? "#111827" : "#ffffff",
+                      color: policeMode === "ROADBLOCK" ? "#ffffff" : "#111827",
+                      cursor: currentHeliCanAct() ? "pointer" : "not-allowed",
+                      opacity: currentHeliCanAct() ? 1 : 0.55,
+                    }}
+                  >
+                    🚧 {t.roadblocks.mode}
+                  </button>
+                )}
               </div>
 
-              {policeSearchMode ? (
-                <div style={{ fontSize: 12, color: "#666" }}>周囲4ビルのどれか1つをタップして捜索してください。</div>
+              {policeMode === "SEARCH" ? (
+                <div style={{ fontSize: 12, color: "#666" }}>{t.controls.searchHelp}</div>
+              ) : policeMode === "ROADBLOCK" ? (
+                <div style={{ fontSize: 12, color: "#666" }}>{t.roadblocks.help(rules.roadblockTurns)}</div>
               ) : (
-                <div style={{ fontSize: 12, color: "#666" }}>移動したい交差点をタップしてください（隣接のみ / 同じ場所に停泊不可）。</div>
+                <div style={{ fontSize: 12, color: "#666" }}>{selectedGround ? t.units.groundMoveHelp : t.controls.moveHelp}</div>
+              )}
+
+              {/* ヘリ以外の部隊がいるときは種類ごとの動き方 */}
+              {rules.units.some((kind) => kind !== "HELI") && (
+                <div style={{ display: "grid", gap: 2, fontSize: 12, color: "#666" }}>
+                  {UNIT_KINDS.filter((kind) => rules.units.includes(kind)).map((kind) => (
+                    <div key={kind}>
+                      {UNIT_ICONS[kind]} {t.units.line(t.units.names[kind], t.units.help[kind])}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* 推理オーバーレイ：痕跡とハズレ捜索から犯人がいる可能性のあるビルを表示 */}
+              <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+                <button
+                  onClick={() => setShowDeduction((v) => !v)}
+                  style={{
+                    ...baseButtonStyle,
+                    flex: 1,
+                    height: 40,
+                    lineHeight: "40px",
+                    fontSize: 14,
+                    background: showDeduction ? "#0ea5e9" : "#ffffff",
+                    color: showDeduction ? "#ffffff" : "#111827",
+                  }}
+                >
+                  {t.controls.deduction(showDeduction)}
+                </button>
+                {deduction && (
+                  <div style={{ flex: 1, fontSize: 13, fontWeight: 800, color: "#0369a1" }}>
+                    {t.controls.candidates(deduction.possible.flat().filter(Boolean).length, deduction.exact)}
+                  </div>
+                )}
+              </div>
+
+              {/* 元に戻す：このターンの移動・ハズレ捜索だけ（痕跡が出た捜索は確定） */}
+              <div style={{ display: "flex", gap: 8 }}>
+                <button
+                  disabled={state.undoStack.length === 0}
+                  onClick={undoPolice}
+                  style={{
+                    ...baseButtonStyle,
+                    flex: 1,
+                    height: 40,
+                    lineHeight: "40px",
+                    fontSize: 14,
+                    cursor: state.undoStack.length > 0 ? "pointer" : "not-allowed",
+                    opacity: state.undoStack.length > 0 ? 1 : 0.55,
+                  }}
+                >
+                  {t.controls.undo}
+                </button>
+                {state.actionsLeft === 0 && (
+                  <button
+                    onClick={endPoliceTurn}
+                    style={{ ...baseButtonStyle, flex: 1, height: 40, lineHeight: "40px", fontSize: 14, background: "#111827", color: "#fff" }}
+                  >
+                    {t.controls.endTurn}
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {canHint && (
+            <div style={{ display: "grid", gap: 6, marginTop: 12 }}>
+              <button
+                onClick={() => setShowEscapeHints((v) => !v)}
+                style={{
+                  ...baseButtonStyle,
+                  height: 40,
+                  lineHeight: "40px",
+                  fontSize: 14,
+                  background: showEscapeHints ? "#f97316" : "#ffffff",
+                  color: showEscapeHints ? "#ffffff" : "#111827",
+                }}
+              >
+                {t.controls.escapeHints(showEscapeHints)}
+              </button>
+              {showEscapeHints && (
+                <div style={{ fontSize: 12, color: "#666", lineHeight: 1.5 }}>
+                  {t.controls.escapeHintsHelp}
+                </div>
               )}
             </div>
           )}
+
+          {state.phase === "END" && replayFrames.length > 0 && (
+            <ReplayControls
+              frames={replayFrames}
+              index={replayIndex ?? replayFrames.length - 1}
+              heliKinds={state.heliKinds}
+              onChange={setReplayIndex}
+              buttonStyle={baseButtonStyle}
+              t={t}
+            />
+          )}
         </section>
       </main>
     </div>
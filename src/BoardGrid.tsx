@@ -0,0 +1,66 @@
+import type { Cell, RuleSet } from "./game/types.ts";
+import { allCells, keyCell } from "./game/board.ts";
+
+/**
+ * 盤面のビル（rules.size x rules.size のマス）と道路の下地
+ * 親は position: relative で大きさを決めた箱にする（ヘリや経路はその上に重ねる）
+ * 読み上げ用に ARIA の grid / row / gridcell にしてある（行は display: contents で見た目に影響しない）
+ */
+export default function BoardGrid(props: {
+  rules: RuleSet;
+  roadGap: number;
+  label: string;
+  cellStyle: (c: Cell) => React.CSSProperties;
+  renderCell?: (c: Cell) => React.ReactNode;
+  onCellClick?: (c: Cell) => void;
+  // マスごとの読み上げ・フォーカス用の属性（aria-label / tabIndex / id など）
+  cellProps?: (c: Cell) => React.HTMLAttributes<HTMLDivElement>;
+}) {
+  const { rules, roadGap, label, cellStyle, renderCell, onCellClick, cellProps } = props;
+  const { size } = rules;
+  const cells = allCells(rules);
+
+  return (
+    <>
+      <div style={{ position: "absolute", inset: 0, borderRadius: 16, background: "#94a3b8" }} />
+
+      <div
+        role="grid"
+        aria-label={label}
+        aria-rowcount={size}
+        aria-colcount={size}
+        style={{
+          position: "absolute",
+          inset: 0,
+          display: "grid",
+          gridTemplateColumns: `repeat(${size}, 1fr)`,
+          gridTemplateRows: `repeat(${size}, 1fr)`,
+          gap: roadGap,
+          border: "2px solid #0f172a",
+          borderRadius: 16,
+          overflow: "hidden",
+          background: "transparent",
+        }}
+      >
+        {Array.from({ length: size }, (_, r) => (
+          <div key={r} role="row" aria-rowindex={r + 1} style={{ display: "contents" }}>
+            {cells
+              .filter((c) => c.r === r)
+              .map((c) => (
+                <div
+                  key={keyCell(c)}
+                  role="gridcell"
+                  aria-colindex={c.c + 1}
+                  {...cellProps?.(c)}
+                  style={cellStyle(c)}
+                  onClick={onCellClick ? () => onCellClick(c) : undefined}
+                >
+                  {renderCell?.(c)}
+                </div>
+              ))}
+          </div>
+        ))}
+      </div>
+    </>
+  );
+}
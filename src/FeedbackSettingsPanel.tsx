@@ -0,0 +1,60 @@
+import type { Messages } from "./i18n/index.ts";
+import { canVibrate, type FeedbackSettings } from "./feedback/settings.ts";
+
+/**
+ * タイトル画面の「音と振動」設定（音量・ミュート・振動）
+ */
+export default function FeedbackSettingsPanel(props: {
+  settings: FeedbackSettings;
+  onChange: (next: FeedbackSettings) => void;
+  onTest: () => void;
+  buttonStyle: React.CSSProperties;
+  t: Messages;
+}) {
+  const { settings, onChange, onTest, buttonStyle, t } = props;
+  const vibrate = canVibrate();
+
+  const toggleStyle = (active: boolean): React.CSSProperties => ({
+    ...buttonStyle,
+    flex: 1,
+    height: 40,
+    lineHeight: "40px",
+    fontSize: 14,
+    background: active ? "rgba(255,255,255,0.92)" : "rgba(255,255,255,0.10)",
+    color: active ? "#111827" : "#fff",
+  });
+
+  return (
+    <div style={{ marginTop: 14 }}>
+      <div style={{ fontSize: 12, fontWeight: 800, color: "rgba(255,255,255,0.78)" }}>{t.feedback.title}</div>
+      <div style={{ display: "flex", gap: 8, marginTop: 6 }}>
+        <button onClick={() => onChange({ ...settings, muted: !settings.muted })} style={toggleStyle(!settings.muted)}>
+          {t.feedback.sound(!settings.muted)}
+        </button>
+        <button
+          disabled={!vibrate}
+          onClick={() => onChange({ ...settings, haptics: !settings.haptics })}
+          style={{ ...toggleStyle(vibrate && settings.haptics), opacity: vibrate ? 1 : 0.55 }}
+        >
+          {t.feedback.haptics(vibrate && settings.haptics)}
+        </button>
+        <button onClick={onTest} style={toggleStyle(false)}>
+          {t.feedback.test}
+        </button>
+      </div>
+      <label style={{ display: "flex", alignItems: "center", gap: 10, marginTop: 8, fontSize: 12, color: "rgba(255,255,255,0.78)" }}>
+        <span style={{ flex: "0 0 auto", minWidth: 72 }}>{t.feedback.volume(Math.round(settings.volume * 100))}</span>
+        <input
+          type="range"
+          min={0}
+          max={100}
+          value={Math.round(settings.volume * 100)}
+          disabled={settings.muted}
+          onChange={(e) => onChange({ ...settings, volume: Number(e.target.value) / 100 })}
+          style={{ flex: 1, opacity: settings.muted ? 0.55 : 1 }}
+        />
+      </label>
+      {!vibrate && <div style={{ marginTop: 6, fontSize: 12, color: "rgba(255,255,255,0.6)" }}>{t.feedback.noHaptics}</div>}
+    </div>
+  );
+}
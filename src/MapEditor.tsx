@@ -0,0 +1,250 @@
+import { useState } from "react";
+import type { Cell, CityMap, RuleSet, Terrain } from "./game/types.ts";
+import { cellName, isBlocked, terrainOf } from "./game/board.ts";
+import { openMap } from "./game/rules.ts";
+import { TERRAINS, toggleBlocked, toggleRoad, toggleTerrain, validateMap } from "./game/maps.ts";
+import { newMapId } from "./game/savedMaps.ts";
+import BoardGrid from "./BoardGrid.tsx";
+import MapRoads from "./MapRoads.tsx";
+import TerrainBadge from "./TerrainBadge.tsx";
+import type { Messages } from "./i18n/index.ts";
+
+type Tool = "BLOCK" | "ROAD" | Terrain;
+
+/**
+ * 地図エディタ：ビルを通れなくする（公園・川）／交差点の間の道路をヘリ通行止めにする／特別なビル（トンネル・高速道路・屋上）を置く
+ * 大きさは選んでいるルールに合わせる。保存した地図は maps（この端末の localStorage）に残る
+ */
+export default function MapEditor(props: {
+  rules: RuleSet;
+  maps: CityMap[];
+  onChangeMaps: (maps: CityMap[]) => void;
+  onUse: (map: CityMap) => void;
+  buttonStyle: React.CSSProperties;
+  t: Messages;
+  onClose: () => void;
+}) {
+  const { rules, maps, onChangeMaps, onUse, buttonStyle, t, onClose } = props;
+  const { size } = rules;
+  const sameSize = maps.filter((m) => m.size === size);
+
+  const blank = (): CityMap => ({ ...openMap(size), id: newMapId() });
+  // 選んでいる地図が自作ならそれを開く
+  const [draft, setDraft] = useState<CityMap>(() => (rules.map.id !== "open" && rules.map.size === size ? rules.map : blank()));
+  const [tool, setTool] = useState<Tool>("BLOCK");
+  const [saved, setSaved] = useState(false);
+
+  const problem = validateMap(draft);
+  const stored = maps.some((m) => m.id === draft.id);
+  // 編集中の地図でルールを組む（盤面の描画用）
+  const draftRules: RuleSet = { ...rules, map: draft };
+
+  function edit(next: CityMap) {
+    setDraft(next);
+    setSaved(false);
+  }
+
+  function named(): CityMap {
+    return { ...draft, name: draft.name.trim() || t.mapEditor.untitled };
+  }
+
+  function save() {
+    const map = named();
+    onChangeMaps(stored ? maps.map((m) => (m.id === map.id ? map : m)) : [...maps, map]);
+    setDraft(map);
+    setSaved(true);
+  }
+
+  function remove() {
+    if (!window.confirm(t.mapEditor.confirmDelete(draft.name))) return;
+    onChangeMaps(maps.filter((m) => m.id !== draft.id));
+    edit(blank());
+  }
+
+  function use() {
+    save();
+    onUse(named());
+  }
+
+  function toggleCell(c: Cell) {
+    if (tool === "BLOCK") edit(toggleBlocked(draft, c));
+    else if (tool !== "ROAD") edit(toggleTerrain(draft, c, tool));
+  }
+
+  // 読み上げ用：通れない／地形
+  function cellDetails(c: Cell) {
+    if (isBlocked(c, draftRules)) return [t.a11y.blocked];
+    const terrain = terrainOf(c, draftRules);
+    return terrain ? [t.terrain.names[terrain]] : [];
+  }
+
+  const toggleStyle = (active: boolean): React.CSSProperties => ({
+    ...buttonStyle,
+    flex: 1,
+    height: 36,
+    lineHeight: "36px",
+    fontSize: 13,
+    background: active ? "#111827" : "#fff",
+    color: active ? "#fff" : "#111827",
+  });
+
+  const roadGap = Math.round(90 / size);
+
+  return (
+    <div
+      style={{
+        padding: 8,
+        maxWidth: 720,
+        margin: "0 auto",
+        fontFamily: "system-ui, sans-serif",
+      }}
+    >
+      <div style={{ border: "1px solid #e5e7eb", borderRadius: 14, padding: 12, background: "#fff", boxShadow: "0 2px 10px rgba(0,0,0,0.06)" }}>
+        <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 8 }}>
+          <div style={{ fontSize: 24, fontWeight: 900 }}>{t.mapEditor.title}</div>
+          <button onClick={onClose} style={{ ...buttonStyle, height: 40, lineHeight: "40px", fontSize: 14 }}>
+            {t.game.backToTitle}
+          </button>
+        </div>
+        <div style={{ marginTop: 4, fontSize: 13, color: "#6b7280" }}>{t.mapEditor.size(size)}</div>
+
+        <div style={{ display: "flex", gap: 8, marginTop: 10, flexWrap: "wrap" }}>
+          {sameSize.map((m) => (
+            <button
+              key={m.id}
+              onClick={() => {
+                setDraft(m);
+                setSaved(false);
+              }}
+              style={{ ...toggleStyle(m.id === draft.id), flex: "0 1 auto", padding: "0 12px" }}
+            >
+              {m.name}
+            </button>
+          ))}
+          <button onClick={() => edit(blank())} style={{ ...toggleStyle(!stored), flex: "0 1 auto", padding: "0 12px" }}>
+            {t.mapEditor.newMap}
+          </button>
+        </div>
+
+        <label style={{ display: "flex", alignItems: "center", gap: 8, marginTop: 10, fontSize: 13, fontWeight: 700 }}>
+          {t.mapEditor.name}
+          <input
+            value={draft.name}
+            maxLength={40}
+            onChange={(e) => edit({ ...draft, name: e.target.value })}
+            placeholder={t.mapEditor.namePlaceholder}
+            style={{ flex: 1, height: 36, boxSizing: "border-box", borderRadius: 10, border: "1px solid #d1d5db", padding: "0 10px", fontSize: 14 }}
+          />
+        </label>
+
+        <div style={{ display: "flex", gap: 8, marginTop: 10 }}>
+          <button onClick={() => setTool("BLOCK")} aria-pressed={tool === "BLOCK"} style={toggleStyle(tool === "BLOCK")}>
+            {t.mapEditor.toolBlock}
+          </button>
+          <button onClick={() => setTool("ROAD")} aria-pressed={tool === "ROAD"} style={toggleStyle(tool === "ROAD")}>
+            {t.mapEditor.toolRoad}
+          </button>
+        </div>
+        <div style={{ display: "flex", gap: 8, marginTop: 8 }}>
+          {TERRAINS.map((kind) => (
+            <button key={kind} onClick={() => setTool(kind)} aria-pressed={tool === kind} style={toggleStyle(tool === kind)}>
+              <TerrainBadge terrain={kind} inline /> {t.terrain.names[kind]}
+            </button>
+          ))}
+        </div>
+        <div style={{ marginTop: 6, fontSize: 12, color: "#6b7280" }}>
+          {tool === "BLOCK" ? t.mapEditor.helpBlock : tool === "ROAD" ? t.mapEditor.helpRoad : t.mapEditor.helpTerrain(t.terrain.help[tool])}
+        </div>
+
+        <div style={{ position: "relative", width: "min(88vw, 420px)", aspectRatio: "1 / 1", margin: "12px auto 0" }}>
+          <BoardGrid
+            rules={draftRules}
+            roadGap={roadGap}
+            label={t.mapEditor.title}
+            cellProps={(c) => ({
+              "aria-label": t.a11y.cell(cellName(c), cellDetails(c)),
+              "aria-selected": isBlocked(c, draftRules) || terrainOf(c, draftRules) != null,
+              tabIndex: tool !== "ROAD" ? 0 : -1,
+              onKeyDown: (e) => {
+                if (e.key !== "Enter" && e.key !== " ") return;
+                e.preventDefault();
+                toggleCell(c);
+              },
+            })}
+            cellStyle={(c) => {
+              const blocked = isBlocked(c, draftRules);
+              return {
+                display: "flex",
+                alignItems: "center",
+                justifyContent: "center",
+                borderRadius: 8,
+                border: "1px solid rgba(15,23,42,0.25)",
+                boxSizing: "border-box",
+                background: blocked ? "linear-gradient(180deg, #16a34a, #166534)" : "linear-gradient(180deg, #2563eb, #1d4ed8)",
+                cursor: tool !== "ROAD" ? "pointer" : "default",
+                fontSize: 22,
+                userSelect: "none",
+                position: "relative",
+              };
+            }}
+            renderCell={(c) => {
+              if (isBlocked(c, draftRules)) return "🌳";
+              const terrain = terrainOf(c, draftRules);
+              return terrain ? <TerrainBadge terrain={terrain} /> : null;
+            }}
+            onCellClick={toggleCell}
+          />
+          <MapRoads
+            rules={draftRules}
+            roadGap={roadGap}
+            t={t}
+            onToggle={tool === "ROAD" ? (a, b) => edit(toggleRoad(draft, a, b)) : undefined}
+          />
+        </div>
+
+        <div style={{ marginTop: 10, fontSize: 13, fontWeight: 700, color: problem ? "#b91c1c" : "#15803d" }} role="status" aria-live="polite">
+          {problem ? t.mapEditor.problems[problem] : saved ? t.mapEditor.saved : t.mapEditor.playable}
+        </div>
+
+        <div style={{ display: "flex", gap: 8, marginTop: 10 }}>
+          <button
+            disabled={problem != null}
+            onClick={save}
+            style={{ ...buttonStyle, flex: 1, height: 40, lineHeight: "40px", fontSize: 14, opacity: problem ? 0.5 : 1 }}
+          >
+            {t.mapEditor.save}
+          </button>
+          <button
+            disabled={problem != null}
+            onClick={use}
+            style={{
+              ...buttonStyle,
+              flex: 1,
+              height: 40,
+              lineHeight: "40px",
+              fontSize: 14,
+              background: "#111827",
+              color: "#fff",
+              opacity: problem ? 0.5 : 1,
+            }}
+          >
+            {t.mapEditor.use}
+          </button>
+        </div>
+        <div style={{ display: "flex", gap: 8, marginTop: 8 }}>
+          <button
+            onClick={() => edit({ ...draft, blocked: [], closedRoads: [], terrain: {} })}
+            style={{ ...buttonStyle, flex: 1, height: 36, lineHeight: "36px", fontSize: 13 }}
+          >
+            {t.mapEditor.reset}
+          </button>
+          {stored && (
+            <button onClick={remove} style={{ ...buttonStyle, flex: 1, height: 36, lineHeight: "36px", fontSize: 13, color: "#b91c1c" }}>
+              {t.mapEditor.delete}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
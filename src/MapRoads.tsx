@@ -0,0 +1,66 @@
+import type { Node, RuleSet } from "./game/types.ts";
+import { allRoads, isRoadClosed, nodeName, roadKey } from "./game/board.ts";
+import type { Messages } from "./i18n/index.ts";
+
+// 通行止めの道路：赤白のしま模様
+const CLOSED_ROAD = "repeating-linear-gradient(45deg, #dc2626 0 6px, #fff 6px 12px)";
+
+/**
+ * 交差点の間の道路（BoardGrid の上に重ねる）
+ * 通常は通行止めの道路だけを描く。onToggle があれば全部の道路をボタンにしてタップで閉じる／開ける（地図エディタ）
+ */
+export default function MapRoads(props: {
+  rules: RuleSet;
+  roadGap: number;
+  t: Messages;
+  onToggle?: (a: Node, b: Node) => void;
+}) {
+  const { rules, roadGap, t, onToggle } = props;
+  const { size } = rules;
+  const totalGap = (size - 1) * roadGap;
+  const cell = `(100% - ${totalGap}px) / ${size}`;
+  // 道路の中心線から両側に少し細く描く
+  const thickness = Math.max(6, Math.round(roadGap * 0.7));
+
+  // 横の道路は下のビル列の上端から、縦の道路は右のビル行の左端から、ビル1つぶんの長さ
+  function roadStyle(a: Node, b: Node): React.CSSProperties {
+    const horizontal = a.r === b.r;
+    const along = horizontal ? b.c : b.r;
+    const across = horizontal ? a.r : a.c;
+    const start = `calc(${cell} * ${along} + ${along * roadGap}px)`;
+    const center = `calc(${cell} * ${across + 1} + ${across * roadGap + roadGap / 2}px)`;
+    return horizontal
+      ? { left: start, top: center, width: `calc(${cell})`, height: thickness, transform: "translateY(-50%)" }
+      : { left: center, top: start, width: thickness, height: `calc(${cell})`, transform: "translateX(-50%)" };
+  }
+
+  const roads = allRoads(rules).filter(([a, b]) => onToggle || isRoadClosed(a, b, rules));
+
+  return (
+    <>
+      {roads.map(([a, b]) => {
+        const closed = isRoadClosed(a, b, rules);
+        const style: React.CSSProperties = {
+          ...roadStyle(a, b),
+          position: "absolute",
+          boxSizing: "border-box",
+          borderRadius: thickness / 2,
+          background: closed ? CLOSED_ROAD : "rgba(255,255,255,0.18)",
+          border: closed ? "1px solid #7f1d1d" : "1px dashed rgba(15,23,42,0.35)",
+          padding: 0,
+        };
+
+        if (!onToggle) return <div key={roadKey(a, b)} aria-hidden style={{ ...style, pointerEvents: "none" }} />;
+        return (
+          <button
+            key={roadKey(a, b)}
+            aria-label={t.mapEditor.road(nodeName(a), nodeName(b), closed)}
+            aria-pressed={closed}
+            onClick={() => onToggle(a, b)}
+            style={{ ...style, cursor: "pointer" }}
+          />
+        );
+      })}
+    </>
+  );
+}
@@ -0,0 +1,134 @@
+import { useEffect, useState } from "react";
+import type { LogEvent, UnitKind } from "./game/types.ts";
+import { lastFrameOfTurn, type ReplayFrame } from "./game/replay.ts";
+import type { Messages } from "./i18n/index.ts";
+
+// 犯人が1人なら「犯人」、複数なら「犯人2」のように番号で呼ぶ
+function criminalLabel(t: Messages, criminals: number, i: number) {
+  return criminals > 1 ? t.game.criminalName(i + 1) : t.roles.CRIMINAL;
+}
+
+// 部隊は「ヘリ1」「地上部隊2」のように種類と番号で呼ぶ
+function unitLabel(t: Messages, heliKinds: readonly UnitKind[], i: number) {
+  return t.units.label(t.units.names[heliKinds[i] ?? "HELI"], i + 1);
+}
+
+function describeEvent(t: Messages, e: LogEvent, criminals: number, heliKinds: readonly UnitKind[]) {
+  if (e.kind === "HELI_PLACED") return t.replay.heliPlaced;
+  if (e.kind === "CRIMINAL_START") return t.replay.criminalStart(criminalLabel(t, criminals, e.criminal));
+  if (e.kind === "HELI_MOVE") return t.replay.heliMove(unitLabel(t, heliKinds, e.heli));
+  if (e.kind === "SEARCH") return t.replay.search(unitLabel(t, heliKinds, e.heli), e.result);
+  if (e.kind === "CRIMINAL_MOVE") return t.replay.criminalMove(criminalLabel(t, criminals, e.criminal));
+  if (e.kind === "ANNOUNCE") return t.replay.announce(criminalLabel(t, criminals, e.criminal));
+  if (e.kind === "ROADBLOCK") return t.replay.roadblock(unitLabel(t, heliKinds, e.heli));
+  return t.replay.winner(e.winner);
+}
+
+/**
+ * END画面のリプレイ操作（1手戻る／進む・再生／一時停止・ターンスライダー）
+ */
+export default function ReplayControls(props: {
+  frames: ReplayFrame[];
+  index: number;
+  heliKinds: UnitKind[];
+  onChange: (index: number) => void;
+  buttonStyle: React.CSSProperties;
+  t: Messages;
+}) {
+  const { frames, index, heliKinds, onChange, buttonStyle, t } = props;
+  const [playing, setPlaying] = useState(false);
+
+  const last = frames.length - 1;
+  const frame = frames[index];
+  const maxTurn = frames.length ? frames[last].turn : 1;
+
+  // 最後まで進んだら自動で止まる
+  const isPlaying = playing && index < last;
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    const t = window.setTimeout(() => onChange(index + 1), 700);
+    return () => window.clearTimeout(t);
+  }, [isPlaying, index, onChange]);
+
+  if (!frame) return null;
+
+  const smallButton: React.CSSProperties = {
+    ...buttonStyle,
+    height: 38,
+    lineHeight: "38px",
+    flex: 1,
+    fontSize: 14,
+    fontWeight: 900,
+  };
+
+  return (
+    <div
+      style={{
+        display: "grid",
+        gap: 8,
+        marginTop: 12,
+        padding: 10,
+        borderRadius: 14,
+        border: "1px solid #e5e7eb",
+        background: "#fff",
+        boxShadow: "0 2px 10px rgba(0,0,0,0.06)",
+      }}
+    >
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "baseline", gap: 8 }}>
+        <div style={{ fontSize: 14, fontWeight: 900 }}>{t.replay.title}</div>
+        <div style={{ fontSize: 12, fontWeight: 700, color: "#374151" }}>
+          {index + 1} / {frames.length}
+        </div>
+      </div>
+
+      <div style={{ fontSize: 13, fontWeight: 800, color: "#111827", minHeight: 20 }}>
+        {t.replay.frame(frame.turn, describeEvent(t, frame.event, frame.criminals.length, heliKinds))}
+      </div>
+
+      <input
+        type="range"
+        min={1}
+        max={maxTurn}
+        value={frame.turn}
+        onChange={(e) => {
+          setPlaying(false);
+          onChange(lastFrameOfTurn(frames, Number(e.target.value)));
+        }}
+        style={{ width: "100%" }}
+      />
+
+      <div style={{ display: "flex", gap: 8 }}>
+        <button
+          disabled={index <= 0}
+          onClick={() => {
+            setPlaying(false);
+            onChange(Math.max(0, index - 1));
+          }}
+          style={{ ...smallButton, opacity: index <= 0 ? 0.55 : 1 }}
+        >
+          {t.replay.back}
+        </button>
+        <button
+          onClick={() => {
+            if (!isPlaying && index >= last) onChange(0);
+            setPlaying(!isPlaying);
+          }}
+          style={{ ...smallButton, background: "#111827", color: "#fff" }}
+        >
+          {isPlaying ? t.replay.pause : t.replay.play}
+        </button>
+        <button
+          disabled={index >= last}
+          onClick={() => {
+            setPlaying(false);
+            onChange(Math.min(last, index + 1));
+          }}
+          style={{ ...smallButton, opacity: index >= last ? 0.55 : 1 }}
+        >
+          {t.replay.forward}
+        </button>
+      </div>
+    </div>
+  );
+}
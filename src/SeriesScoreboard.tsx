@@ -0,0 +1,85 @@
+import type { Series } from "./game/types.ts";
+import { policePlayerOf, seriesStandings, seriesWinner } from "./game/series.ts";
+import type { Messages } from "./i18n/index.ts";
+
+/**
+ * シリーズのスコアボード（勝ち数・確保ターン合計・試合ごとの結果）
+ */
+export default function SeriesScoreboard(props: { series: Series; maxTurn: number; t: Messages }) {
+  const { series, maxTurn, t } = props;
+  const nameOf = (i: number) => t.series.players[series.players[i]];
+  const standings = seriesStandings(series);
+  const winner = seriesWinner(series);
+  const nowPolice = policePlayerOf(series, series.index);
+  const playing = series.games.length <= series.index;
+
+  const cellStyle: React.CSSProperties = { padding: "4px 6px", textAlign: "center" };
+
+  return (
+    <div
+      style={{
+        marginTop: 10,
+        padding: 10,
+        borderRadius: 12,
+        border: "1px solid #e5e7eb",
+        background: "#f9fafb",
+        fontSize: 13,
+      }}
+    >
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "baseline", gap: 8 }}>
+        <div style={{ fontWeight: 900 }}>{t.series.heading(series.index + 1, series.length)}</div>
+        <div style={{ fontSize: 12, fontWeight: 700, color: "#374151" }}>
+          {playing ? t.series.police(nameOf(nowPolice)) : t.series.tiebreak}
+        </div>
+      </div>
+
+      <table style={{ width: "100%", marginTop: 6, borderCollapse: "collapse" }}>
+        <thead>
+          <tr style={{ color: "#6b7280", fontSize: 12 }}>
+            <th style={{ ...cellStyle, textAlign: "left" }}>{t.series.player}</th>
+            <th style={cellStyle}>{t.series.wins}</th>
+            <th style={cellStyle}>{t.series.captureTurns}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {series.players.map((player, i) => (
+            <tr key={player} style={{ fontWeight: winner === i ? 900 : 700 }}>
+              <td style={{ ...cellStyle, textAlign: "left" }}>
+                {winner === i ? "🏆 " : ""}
+                {nameOf(i)}
+              </td>
+              <td style={cellStyle}>{standings[i].wins}</td>
+              <td style={cellStyle}>{standings[i].captureTurns}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {series.games.length > 0 && (
+        <div style={{ display: "flex", gap: 6, flexWrap: "wrap", marginTop: 6 }}>
+          {series.games.map((g, i) => (
+            <span
+              key={i}
+              style={{
+                padding: "2px 8px",
+                borderRadius: 999,
+                background: g.winner === "POLICE" ? "#dbeafe" : "#fee2e2",
+                fontSize: 12,
+                fontWeight: 700,
+              }}
+            >
+              {i + 1}. {t.series.gamePolice(nameOf(g.policePlayer))}
+              {g.captureTurn <= maxTurn ? t.series.caughtAt(g.captureTurn) : t.series.escaped}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {winner != null && (
+        <div style={{ marginTop: 8, fontSize: 15, fontWeight: 900 }}>
+          {winner === "DRAW" ? t.series.draw : t.series.champion(nameOf(winner))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+import { useEffect, useState } from "react";
+import type { Cell, RuleSet } from "./game/types.ts";
+import { RULE_PRESETS } from "./game/rules.ts";
+import { captureHistogram, cellHeat, winRates, type GameRecord } from "./game/stats.ts";
+import { clearGameRecords, loadGameRecords } from "./game/statsDb.ts";
+import { cellName } from "./game/board.ts";
+import BoardGrid from "./BoardGrid.tsx";
+import type { Messages } from "./i18n/index.ts";
+
+const HEATMAP_PX = 200;
+
+/**
+ * 成績画面：この端末で終わった対戦の記録（IndexedDB）を集計して表示
+ * 確保ターンとヒートマップは盤面の大きさが同じルールごとに見る
+ */
+export default function StatsScreen(props: {
+  rules: RuleSet;
+  buttonStyle: React.CSSProperties;
+  t: Messages;
+  onClose: () => void;
+}) {
+  const { buttonStyle, t, onClose } = props;
+  const [records, setRecords] = useState<GameRecord[] | null>(null);
+  const [rulesId, setRulesId] = useState(props.rules.id);
+
+  useEffect(() => {
+    loadGameRecords()
+      .then(setRecords)
+      .catch(() => setRecords([]));
+  }, []);
+
+  function clearAll() {
+    if (!window.confirm(t.stats.confirmClear)) return;
+    clearGameRecords()
+      .then(() => setRecords([]))
+      .catch(() => {});
+  }
+
+  const rules = RULE_PRESETS.find((r) => r.id === rulesId) ?? props.rules;
+  const list = (records ?? []).filter((r) => r.rulesId === rules.id);
+  const rows = winRates(list);
+  const histogram = captureHistogram(list, rules.maxTurn);
+  const histogramMax = Math.max(1, histogram.escaped, ...histogram.counts);
+
+  const cellStyle: React.CSSProperties = { padding: "4px 6px", textAlign: "center" };
+  const sectionTitle: React.CSSProperties = { fontSize: 14, fontWeight: 900, marginTop: 14 };
+
+  return (
+    <div
+      style={{
+        padding: 8,
+        maxWidth: 720,
+        margin: "0 auto",
+        fontFamily: "system-ui, sans-serif",
+      }}
+    >
+      <div style={{ border: "1px solid #e5e7eb", borderRadius: 14, padding: 12, background: "#fff", boxShadow: "0 2px 10px rgba(0,0,0,0.06)" }}>
+        <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 8 }}>
+          <div style={{ fontSize: 24, fontWeight: 900 }}>{t.stats.title}</div>
+          <button onClick={onClose} style={{ ...buttonStyle, height: 40, lineHeight: "40px", fontSize: 14 }}>
+            {t.game.backToTitle}
+          </button>
+        </div>
+
+        <div style={{ display: "flex", gap: 8, marginTop: 10 }}>
+          {RULE_PRESETS.map((r) => {
+            const active = r.id === rules.id;
+            return (
+              <button
+                key={r.id}
+                onClick={() => setRulesId(r.id)}
+                style={{
+                  ...buttonStyle,
+                  flex: 1,
+                  height: 36,
+                  lineHeight: "36px",
+                  fontSize: 13,
+                  background: active ? "#111827" : "#fff",
+                  color: active ? "#fff" : "#111827",
+                }}
+              >
+                {t.title.ruleLabels[r.id] ?? r.id} {r.size}x{r.size}
+              </button>
+            );
+          })}
+        </div>
+
+        {records == null ? (
+          <div style={{ marginTop: 14, fontSize: 13, color: "#6b7280" }}>{t.stats.loading}</div>
+        ) : list.length === 0 ? (
+          <div style={{ marginTop: 14, fontSize: 13, color: "#6b7280" }}>{t.stats.empty}</div>
+        ) : (
+          <>
+            <div style={sectionTitle}>{t.stats.winRates(list.length)}</div>
+            <table style={{ width: "100%", marginTop: 6, borderCollapse: "collapse", fontSize: 13 }}>
+              <thead>
+                <tr style={{ color: "#6b7280", fontSize: 12 }}>
+                  <th style={{ ...cellStyle, textAlign: "left" }}>{t.stats.mode}</th>
+                  <th style={cellStyle}>{t.stats.games}</th>
+                  <th style={cellStyle}>{t.stats.wins}</th>
+                  <th style={cellStyle}>{t.stats.winRate}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr key={`${row.mode}:${row.role}`} style={{ fontWeight: 700 }}>
+                    <td style={{ ...cellStyle, textAlign: "left" }}>
+                      {t.stats.row(t.stats.modes[row.mode], row.role ? t.roles[row.role] : t.stats.policeSideWins)}
+                    </td>
+                    <td style={cellStyle}>{row.games}</td>
+                    <td style={cellStyle}>{row.wins}</td>
+                    <td style={cellStyle}>{Math.round((row.wins / row.games) * 100)}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div style={sectionTitle}>{t.stats.captureTurns}</div>
+            <div style={{ display: "flex", alignItems: "flex-end", gap: 4, height: 120, marginTop: 6 }}>
+              {[...histogram.counts, histogram.escaped].map((n, i) => {
+                const escaped = i === histogram.counts.length;
+                return (
+                  <div key={i} style={{ flex: 1, display: "flex", flexDirection: "column", alignItems: "center", justifyContent: "flex-end", height: "100%" }}>
+                    <div style={{ fontSize: 11, fontWeight: 700, color: "#374151" }}>{n > 0 ? n : ""}</div>
+                    <div
+                      style={{
+                        width: "100%",
+                        height: `${(n / histogramMax) * 80}%`,
+                        minHeight: n > 0 ? 2 : 0,
+                        borderRadius: "4px 4px 0 0",
+                        background: escaped ? "#ef4444" : "#2563eb",
+                      }}
+                      title={escaped ? t.stats.escapedBar(n) : t.stats.caughtBar(i + 1, n)}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+            <div style={{ display: "flex", gap: 4, fontSize: 11, color: "#6b7280", marginTop: 2 }}>
+              {histogram.counts.map((_, i) => (
+                <div key={i} style={{ flex: 1, textAlign: "center" }}>
+                  {i + 1}
+                </div>
+              ))}
+              <div style={{ flex: 1, textAlign: "center" }}>{t.stats.escapedShort}</div>
+            </div>
+
+            <div style={{ display: "flex", gap: 16, flexWrap: "wrap", justifyContent: "center" }}>
+              <Heatmap title={t.stats.startHeatmap} rules={rules} records={list} pick={(r) => r.start} color="34,197,94" t={t} />
+              <Heatmap title={t.stats.captureHeatmap} rules={rules} records={list} pick={(r) => r.capture} color="239,68,68" t={t} />
+            </div>
+          </>
+        )}
+
+        {records != null && records.length > 0 && (
+          <button
+            onClick={clearAll}
+            style={{ ...buttonStyle, width: "100%", marginTop: 16, height: 40, lineHeight: "40px", fontSize: 14, color: "#b91c1c" }}
+          >
+            {t.stats.clear}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// 盤面と同じマス目に回数を色の濃さで重ねる
+function Heatmap(props: {
+  title: string;
+  rules: RuleSet;
+  records: GameRecord[];
+  pick: (r: GameRecord) => Cell | null;
+  color: string;
+  t: Messages;
+}) {
+  const { title, rules, records, pick, color, t } = props;
+  const heat = cellHeat(records, rules.size, pick);
+  const max = Math.max(1, ...heat.flat());
+
+  return (
+    <div>
+      <div style={{ fontSize: 14, fontWeight: 900, marginTop: 14, marginBottom: 6 }}>{title}</div>
+      <div style={{ position: "relative", width: HEATMAP_PX, height: HEATMAP_PX }}>
+        <BoardGrid
+          rules={rules}
+          roadGap={Math.round(40 / rules.size)}
+          label={title}
+          cellProps={(c) => ({ "aria-label": t.a11y.heatmapCell(cellName(c), heat[c.r][c.c]) })}
+          cellStyle={(c) => {
+            const n = heat[c.r][c.c];
+            return {
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "center",
+              borderRadius: 6,
+              border: "1px solid rgba(15,23,42,0.25)",
+              boxSizing: "border-box",
+              background: n > 0 ? `rgba(${color},${0.25 + 0.75 * (n / max)})` : "linear-gradient(180deg, #2563eb, #1d4ed8)",
+              color: "#fff",
+              fontSize: 13,
+              fontWeight: 900,
+              textShadow: "0 1px 4px rgba(0,0,0,0.45)",
+            };
+          }}
+          renderCell={(c) => (heat[c.r][c.c] > 0 ? heat[c.r][c.c] : null)}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import type { Terrain } from "./game/types.ts";
+
+const ICONS: Record<Terrain, string> = {
+  TUNNEL: "🚇",
+  HIGHWAY: "🛣️",
+  ROOFTOP: "🏙️",
+};
+
+/**
+ * 特別なビルの印（盤面ではマスの右下、凡例では文字の横に並べる）
+ */
+export default function TerrainBadge(props: { terrain: Terrain; inline?: boolean }) {
+  const { terrain, inline } = props;
+  if (inline) return <span aria-hidden>{ICONS[terrain]}</span>;
+  return (
+    <span
+      aria-hidden
+      style={{
+        position: "absolute",
+        right: 3,
+        bottom: 3,
+        padding: "0 3px",
+        borderRadius: 6,
+        background: "rgba(15,23,42,0.55)",
+        fontSize: 13,
+        lineHeight: "18px",
+        pointerEvents: "none",
+      }}
+    >
+      {ICONS[terrain]}
+    </span>
+  );
+}
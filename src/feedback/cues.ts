@@ -0,0 +1,103 @@
+import type { LogEvent } from "../game/types.ts";
+import { canVibrate, type FeedbackSettings } from "./settings.ts";
+
+/**
+ * 効果音（WebAudio でその場で合成・音声ファイルは使わない）と振動
+ */
+export type Cue = "HELI_MOVE" | "SEARCH_MISS" | "TRACE" | "CAPTURE" | "ESCAPE" | "HANDOFF" | "AI_WAIT";
+
+// 1音ぶん：start は鳴らし始め（秒）、slideTo があれば音程をそこまで滑らせる
+type Tone = { freq: number; start: number; dur: number; type: OscillatorType; gain: number; slideTo?: number };
+
+const TONES: Record<Cue, Tone[]> = {
+  // ヘリの移動：低めの「ヒュン」
+  HELI_MOVE: [{ freq: 180, slideTo: 90, start: 0, dur: 0.14, type: "square", gain: 0.18 }],
+  // ハズレ：下がる2音
+  SEARCH_MISS: [
+    { freq: 440, start: 0, dur: 0.1, type: "triangle", gain: 0.4 },
+    { freq: 330, start: 0.11, dur: 0.16, type: "triangle", gain: 0.4 },
+  ],
+  // 痕跡発見：上がる2音
+  TRACE: [
+    { freq: 660, start: 0, dur: 0.1, type: "sine", gain: 0.45 },
+    { freq: 990, start: 0.1, dur: 0.2, type: "sine", gain: 0.45 },
+  ],
+  // 確保：ファンファーレ
+  CAPTURE: [
+    { freq: 523, start: 0, dur: 0.12, type: "square", gain: 0.22 },
+    { freq: 659, start: 0.12, dur: 0.12, type: "square", gain: 0.22 },
+    { freq: 784, start: 0.24, dur: 0.12, type: "square", gain: 0.22 },
+    { freq: 1047, start: 0.36, dur: 0.36, type: "square", gain: 0.22 },
+  ],
+  // 逃げ切り：エンジン音が遠ざかる
+  ESCAPE: [
+    { freq: 392, start: 0, dur: 0.14, type: "sawtooth", gain: 0.16 },
+    { freq: 330, start: 0.14, dur: 0.14, type: "sawtooth", gain: 0.16 },
+    { freq: 262, slideTo: 130, start: 0.28, dur: 0.45, type: "sawtooth", gain: 0.16 },
+  ],
+  // 交代画面：「ピンポン」
+  HANDOFF: [
+    { freq: 880, start: 0, dur: 0.12, type: "sine", gain: 0.35 },
+    { freq: 698, start: 0.14, dur: 0.22, type: "sine", gain: 0.35 },
+  ],
+  // 犯人AIの移動待ち：小さなエンジン音
+  AI_WAIT: [{ freq: 70, slideTo: 120, start: 0, dur: 0.5, type: "sawtooth", gain: 0.08 }],
+};
+
+const VIBRATIONS: Record<Cue, number[]> = {
+  HELI_MOVE: [15],
+  SEARCH_MISS: [30],
+  TRACE: [40, 40, 80],
+  CAPTURE: [100, 50, 100, 50, 200],
+  ESCAPE: [200, 100, 200],
+  HANDOFF: [60, 60, 60],
+  AI_WAIT: [20],
+};
+
+/** ログの出来事に対応する効果音（鳴らさない出来事は null） */
+export function cueOf(e: LogEvent): Cue | null {
+  if (e.kind === "HELI_MOVE") return "HELI_MOVE";
+  if (e.kind === "SEARCH") return e.result === "CAUGHT" ? "CAPTURE" : e.result === "TRACE" ? "TRACE" : "SEARCH_MISS";
+  if (e.kind === "END" && e.winner === "CRIMINAL") return "ESCAPE";
+  return null;
+}
+
+// AudioContext はブラウザの自動再生制限があるので、最初に鳴らすときに作る
+let audio: AudioContext | null = null;
+
+function audioContext(): AudioContext | null {
+  if (typeof window === "undefined" || typeof window.AudioContext !== "function") return null;
+  if (!audio) audio = new window.AudioContext();
+  if (audio.state === "suspended") void audio.resume();
+  return audio;
+}
+
+export function playCue(cue: Cue, settings: FeedbackSettings) {
+  if (settings.haptics && canVibrate()) navigator.vibrate(VIBRATIONS[cue]);
+  if (settings.muted || settings.volume <= 0) return;
+
+  const ctx = audioContext();
+  if (!ctx) return;
+
+  const t0 = ctx.currentTime + 0.01;
+  for (const tone of TONES[cue]) {
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    const start = t0 + tone.start;
+    const end = start + tone.dur;
+
+    osc.type = tone.type;
+    osc.frequency.setValueAtTime(tone.freq, start);
+    if (tone.slideTo) osc.frequency.exponentialRampToValueAtTime(tone.slideTo, end);
+
+    // 立ち上がり・減衰を付けてプチッという音を防ぐ
+    const peak = tone.gain * settings.volume;
+    gain.gain.setValueAtTime(0.0001, start);
+    gain.gain.exponentialRampToValueAtTime(peak, start + 0.01);
+    gain.gain.exponentialRampToValueAtTime(0.0001, end);
+
+    osc.connect(gain).connect(ctx.destination);
+    osc.start(start);
+    osc.stop(end + 0.02);
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * 効果音と振動の設定（localStorage に残して次回も同じ設定で開く）
+ */
+export type FeedbackSettings = {
+  volume: number; // 0〜1
+  muted: boolean;
+  haptics: boolean; // navigator.vibrate を使うか
+};
+
+export const DEFAULT_FEEDBACK: FeedbackSettings = { volume: 0.6, muted: false, haptics: true };
+
+const FEEDBACK_KEY = "citychase:feedback";
+
+export function loadFeedbackSettings(): FeedbackSettings {
+  try {
+    const raw = window.localStorage.getItem(FEEDBACK_KEY);
+    if (!raw) return DEFAULT_FEEDBACK;
+    const saved = JSON.parse(raw) as Partial<FeedbackSettings>;
+    return {
+      volume: typeof saved.volume === "number" ? Math.max(0, Math.min(1, saved.volume)) : DEFAULT_FEEDBACK.volume,
+      muted: typeof saved.muted === "boolean" ? saved.muted : DEFAULT_FEEDBACK.muted,
+      haptics: typeof saved.haptics === "boolean" ? saved.haptics : DEFAULT_FEEDBACK.haptics,
+    };
+  } catch {
+    return DEFAULT_FEEDBACK;
+  }
+}
+
+export function saveFeedbackSettings(settings: FeedbackSettings) {
+  try {
+    window.localStorage.setItem(FEEDBACK_KEY, JSON.stringify(settings));
+  } catch {
+    // 保存できなくてもこのセッションでは効く
+  }
+}
+
+// 端末が振動に対応しているか（iOS Safari などは非対応）
+export function canVibrate() {
+  return typeof navigator !== "undefined" && typeof navigator.vibrate === "function";
+}
@@ -0,0 +1,689 @@
+import type { Action } from "./engine.ts";
+import type { AiLevel, Cell, Criminal, GameState, Node, RuleSet } from "./types.ts";
+import type { Rng } from "./rng.ts";
+import type { CriminalMove, CriminalStrategy, PoliceStrategy } from "./strategy.ts";
+import { deduceCriminal, type Deduction } from "./deduce.ts";
+import { announcementsOf, type Announcement } from "./replay.ts";
+import { activeCriminals, mergedVisits, revealedVisits } from "./criminals.ts";
+import { canUnitMove, closedCells, groundCells, onCell, roadblockCells, unitMoves, unitSearchCells } from "./units.ts";
+import {
+  allNodes,
+  cellDistances,
+  criminalSteps,
+  isBlocked,
+  keyCell,
+  keyNode,
+  manhattanCell,
+  neighborsCell,
+  neighborsNode,
+  nodeDistances,
+  pickRandom,
+  randomCell,
+  sameCell,
+  searchableCells,
+  terrainOf,
+  traceWeight,
+  uniqueRandomNodes,
+  type CriminalStep,
+} from "./board.ts";
+
+// 移動で通るビル（高速道路なら途中のビルも）
+function passedKeys(m: CriminalStep) {
+  return m.via ? [keyCell(m.via), keyCell(m.to)] : [keyCell(m.to)];
+}
+
+/**
+ * 犯人の移動候補（未訪問の隣接ビル・高速道路なら2マス先も）と、最後まで逃げ切れる安全な候補
+ * blocked（地上部隊のいるビル・ロードブロック）は通れないものとして先読みする（ロードブロックが解けるのは待たない）
+ */
+function criminalMoveOptions(
+  current: Cell,
+  visits: Record<string, number[]>,
+  currentTurn: number,
+  rules: RuleSet,
+  blocked: ReadonlySet<string> = new Set()
+) {
+  const visited = new Set([...Object.keys(visits), ...blocked]);
+  const remainingMoves = rules.maxTurn - currentTurn;
+
+  const nextSteps = criminalSteps(current, rules, visited);
+
+  function canFinishFrom(pos: Cell, stepsLeft: number, visitedSet: Set<string>): boolean {
+    if (stepsLeft <= 0) return true;
+
+    const neigh = criminalSteps(pos, rules, visitedSet);
+    if (neigh.length === 0) return false;
+
+    neigh.sort((a, b) => {
+      const da = criminalSteps(a.to, rules, visitedSet).length;
+      const db = criminalSteps(b.to, rules, visitedSet).length;
+      return da - db;
+    });
+
+    for (const n of neigh) {
+      const keys = passedKeys(n);
+      for (const k of keys) visitedSet.add(k);
+      if (canFinishFrom(n.to, stepsLeft - 1, visitedSet)) return true;
+      for (const k of keys) visitedSet.delete(k);
+    }
+    return false;
+  }
+
+  const safeSteps: CriminalStep[] = [];
+  for (const cand of nextSteps) {
+    const tmp = new Set(visited);
+    for (const k of passedKeys(cand)) tmp.add(k);
+    if (canFinishFrom(cand.to, remainingMoves - 1, tmp)) safeSteps.push(cand);
+  }
+
+  return { visited, nextCandidates: nextSteps.map((m) => m.to), safeMoves: safeSteps.map((m) => m.to) };
+}
+
+/**
+ * 犯人AI（詰み回避・待機なし）
+ */
+export function criminalAiNextMoveNoStuck(
+  current: Cell,
+  visits: Record<string, number[]>,
+  currentTurn: number,
+  rules: RuleSet,
+  blocked?: ReadonlySet<string>
+) {
+  const { visited, nextCandidates, safeMoves } = criminalMoveOptions(current, visits, currentTurn, rules, blocked);
+  if (nextCandidates.length === 0) {
+    return { next: current, stuck: true as const };
+  }
+
+  const pickFrom = safeMoves.length > 0 ? safeMoves : nextCandidates;
+
+  const mid = Math.floor(rules.size / 2);
+  const center: Cell = { r: mid, c: mid };
+  // 逃げ道（高速道路の2マス先も数える）が多いビルを優先。痕跡が残らないトンネルも好む
+  const score = (c: Cell) =>
+    criminalSteps(c, rules, visited).length * 10 + 1 / (1 + manhattanCell(c, center)) + (terrainOf(c, rules) === "TUNNEL" ? 5 : 0);
+  pickFrom.sort((a, b) => score(b) - score(a));
+
+  return { next: pickFrom[0], stuck: false as const };
+}
+
+/**
+ * Easy：安全な候補からでたらめに選ぶ
+ */
+function easyCriminalMove(s: GameState, criminal: number, rng: Rng) {
+  const { pos, visits } = s.criminals[criminal];
+  const current = pos!;
+  const { nextCandidates, safeMoves } = criminalMoveOptions(current, visits, s.turn, s.rules, closedCells(s));
+  if (nextCandidates.length === 0) return { next: current, stuck: true as const };
+  return { next: pickRandom(safeMoves.length > 0 ? safeMoves : nextCandidates, rng), stuck: false as const };
+}
+
+/**
+ * 次の警察ターンに各ビルを捜索できる部隊の数
+ * - searchableNow：今いる交差点からそのまま捜索できる（周囲4ビルと近くの屋上）。地上部隊は隣のビルへ入れる
+ * - searchableAfterMove：1手移動してから捜索できる（地上部隊は2手で入れるビル）
+ */
+function heliSearchReach(s: Pick<GameState, "helicopters" | "heliKinds" | "rules">) {
+  const searchableNow = new Map<string, number>();
+  const searchableAfterMove = new Map<string, number>();
+  const reach = (h: Node, i: number) =>
+    onCell(s.heliKinds[i]) ? neighborsCell(h, s.rules) : searchableCells(h, s.rules);
+  const nextTo = (h: Node, i: number) => (onCell(s.heliKinds[i]) ? neighborsCell(h, s.rules) : neighborsNode(h, s.rules));
+  for (const [i, h] of s.helicopters.entries()) {
+    for (const c of reach(h, i)) searchableNow.set(keyCell(c), (searchableNow.get(keyCell(c)) ?? 0) + 1);
+    for (const n of nextTo(h, i)) {
+      for (const c of reach(n, i)) {
+        searchableAfterMove.set(keyCell(c), (searchableAfterMove.get(keyCell(c)) ?? 0) + 1);
+      }
+    }
+  }
+  return { searchableNow, searchableAfterMove };
+}
+
+/**
+ * Hard：ヘリの位置と見つかった痕跡を見て逃げる（安全な候補の中から選ぶので詰みはしない）
+ * - 次の警察ターンにそのまま捜索できるビル（今いる交差点の周囲4ビル）は大きく減点
+ * - 1手移動してから捜索できるビル（隣の交差点の周囲）も減点
+ * - 見つかった痕跡（仲間の痕跡も）の近くは警察が集まるので離れる
+ * - 痕跡が残らないトンネルは少し加点
+ */
+function hardCriminalMove(s: GameState, criminal: number, rng: Rng) {
+  const { rules } = s;
+  const { pos, visits } = s.criminals[criminal];
+  const current = pos!;
+  const { visited, nextCandidates, safeMoves } = criminalMoveOptions(current, visits, s.turn, rules, closedCells(s));
+  if (nextCandidates.length === 0) return { next: current, stuck: true as const };
+
+  const { searchableNow, searchableAfterMove } = heliSearchReach(s);
+
+  // 痕跡からの距離は地図の上を歩いた手数（通れないビルは迂回）
+  const allVisits = mergedVisits(s.criminals);
+  const traces: { dist: number[][]; w: number }[] = [];
+  for (const k of Object.keys(s.revealed)) {
+    if (!s.revealed[k]) continue;
+    const turns = allVisits[k];
+    if (!turns || turns.length === 0) continue;
+    const [r, c] = k.split(",").map((x) => parseInt(x, 10));
+    traces.push({ dist: cellDistances({ r, c }, rules), w: traceWeight(Math.min(...turns), rules) });
+  }
+
+  const pickFrom = safeMoves.length > 0 ? safeMoves : nextCandidates;
+  const scored = pickFrom.map((c) => {
+    const k = keyCell(c);
+    const open = criminalSteps(c, rules, visited).length;
+
+    let score = open * 0.5;
+    if (terrainOf(c, rules) === "TUNNEL") score += 1.5;
+    score -= (searchableNow.get(k) ?? 0) * 6;
+    score -= Math.min(searchableAfterMove.get(k) ?? 0, 3) * 1.2;
+    for (const tr of traces) score -= tr.w * 2 * Math.exp(-tr.dist[c.r][c.c] / 1.5);
+
+    return { c, score: score + rng.next() * 0.01 };
+  });
+
+  scored.sort((a, b) => b.score - a.score);
+  return { next: scored[0].c, stuck: false as const };
+}
+
+export type MoveRisk = {
+  cell: Cell;
+  searchableNow: number; // 次の警察ターンに移動なしで捜索できる部隊の数
+  searchableAfterMove: number; // 1手移動してから捜索できる部隊の数（行動が1回のルールでは 0）
+  deadEnd: boolean; // このビルへ行くと最終ターンまで動き続けられない
+  danger: number; // 0〜100（行き止まりは 100）
+};
+
+// ヒントに使うのは犯人に見えている情報だけ（visits は動かす犯人の訪問）
+export type EscapeRiskInput = Pick<GameState, "rules" | "turn" | "helicopters" | "heliKinds" | "log"> & Pick<Criminal, "visits">;
+
+/**
+ * 人間の犯人向けヒント：移動できる各ビルの危なさ
+ * 行き止まりの判定は犯人AIと同じ先読み（criminalMoveOptions）を使う
+ */
+export function criminalMoveRisks(s: EscapeRiskInput, current: Cell): MoveRisk[] {
+  const { nextCandidates, safeMoves } = criminalMoveOptions(current, s.visits, s.turn, s.rules, closedCells(s));
+  const { searchableNow, searchableAfterMove } = heliSearchReach(s);
+  const canMoveThenSearch = s.rules.actionsPerTurn >= 2;
+
+  return nextCandidates.map((cell) => {
+    const k = keyCell(cell);
+    const now = searchableNow.get(k) ?? 0;
+    const afterMove = canMoveThenSearch ? searchableAfterMove.get(k) ?? 0 : 0;
+    const deadEnd = !safeMoves.some((m) => keyCell(m) === k);
+
+    // そのまま捜索されるのが一番危ない。移動してからの捜索は数が多いほど危ない（3機で頭打ち）
+    const danger = deadEnd ? 100 : Math.min(95, now * 50 + Math.min(afterMove, 3) * 15);
+    return { cell, searchableNow: now, searchableAfterMove: afterMove, deadEnd, danger };
+  });
+}
+
+function criminalStrategy(level: AiLevel, move: CriminalStrategy["nextMove"]): CriminalStrategy {
+  return {
+    id: level,
+    // 地上部隊のいるビルには隠れられないので引き直す
+    chooseStart: (s, rng) => {
+      const ground = groundCells(s);
+      for (;;) {
+        const c = randomCell(s.rules, rng);
+        if (!ground.has(keyCell(c))) return c;
+      }
+    },
+    nextMove: move,
+  };
+}
+
+/**
+ * 犯人AI（強さごと）
+ */
+export const CRIMINAL_AI: Record<AiLevel, CriminalStrategy> = {
+  EASY: criminalStrategy("EASY", easyCriminalMove),
+  NORMAL: criminalStrategy("NORMAL", (s, criminal) => {
+    const { pos, visits } = s.criminals[criminal];
+    return criminalAiNextMoveNoStuck(pos!, visits, s.turn, s.rules, closedCells(s));
+  }),
+  HARD: criminalStrategy("HARD", hardCriminalMove),
+};
+
+/**
+ * 犯人AIの1手（SINGLE警察の CRIMINAL_AI_MOVING 中・犯人ごと）
+ */
+export function chooseCriminalAiMove(s: GameState, criminal: number, rng: Rng): CriminalMove {
+  return CRIMINAL_AI[s.criminalAiLevel].nextMove(s, criminal, rng);
+}
+
+/**
+ * 犯人がいそうな度合い（0〜1）：見つかった痕跡と公開された位置から、経過ターンで届く距離ほど高い
+ * 距離は犯人が歩く手数（通れないビルは迂回・高速道路は1ターンで2マス）。トンネルには痕跡が出ないので起点にならない
+ */
+export function buildHeat(
+  currentTurn: number,
+  visits: Record<string, number[]>,
+  revealed: Record<string, number>,
+  rules: RuleSet,
+  announced: readonly Announcement[] = []
+): number[][] {
+  const size = rules.size;
+  const heat: number[][] = Array.from({ length: size }, () => Array.from({ length: size }, () => 0.0001));
+
+  const traces: { cell: Cell; t: number }[] = [];
+  for (const k of Object.keys(revealed)) {
+    if (!revealed[k]) continue;
+    const v = visits[k];
+    if (!v || v.length === 0) continue;
+    const t = Math.min(...v);
+    const [r, c] = k.split(",").map((x) => parseInt(x, 10));
+    traces.push({ cell: { r, c }, t });
+  }
+  // 公開された位置はそのターンちょうどの居場所（痕跡と同じに扱う）
+  for (const a of announced) traces.push({ cell: a.cell, t: a.turn });
+
+  // 通れないビルには犯人はいない
+  if (traces.length === 0) {
+    for (let r = 0; r < size; r++) for (let c = 0; c < size; c++) heat[r][c] = isBlocked({ r, c }, rules) ? 0 : 1;
+    return heat;
+  }
+
+  const maxT = Math.max(...traces.map((x) => x.t));
+  // 痕跡から各ビルまで犯人が歩く手数（何も閉じていない街ならマンハッタン距離）
+  const dists = traces.map((tr) => cellDistances(tr.cell, rules));
+
+  for (let r = 0; r < size; r++) {
+    for (let c = 0; c < size; c++) {
+      if (isBlocked({ r, c }, rules)) {
+        heat[r][c] = 0;
+        continue;
+      }
+      let score = 1.0;
+
+      for (const [i, tr] of traces.entries()) {
+        const delta = Math.max(0, currentTurn - tr.t);
+        const d = dists[i][r][c];
+
+        if (d > delta) {
+          score *= 0.02;
+          continue;
+        }
+
+        const freshness = 1 + (tr.t / Math.max(1, maxT)) * 1.5;
+        const closeness = Math.exp(-Math.abs(delta - d) / (1.2 / freshness));
+        score *= 0.15 + 0.85 * closeness;
+      }
+
+      heat[r][c] = score;
+    }
+  }
+
+  let mx = 0;
+  for (let r = 0; r < size; r++) for (let c = 0; c < size; c++) mx = Math.max(mx, heat[r][c]);
+  if (mx > 0) {
+    for (let r = 0; r < size; r++) for (let c = 0; c < size; c++) heat[r][c] /= mx;
+  }
+  return heat;
+}
+
+/**
+ * 犯人ごとのヒートマップを重ねる（捕まっていない犯人のうち一番いそうな値）
+ * 痕跡の色で誰が通ったか分かるので、その犯人の痕跡と公開位置だけで計算する
+ */
+function policeHeat(s: GameState, announced: readonly Announcement[]): number[][] {
+  const heats = s.criminals.flatMap((cr, i) =>
+    cr.caught ? [] : [buildHeat(s.turn, revealedVisits(cr.visits, s.revealed), s.revealed, s.rules, announced.filter((a) => a.criminal === i))]
+  );
+  if (heats.length === 1) return heats[0];
+  return heats[0].map((row, r) => row.map((_, c) => Math.max(...heats.map((h) => h[r][c]))));
+}
+
+function traceAdjBonus(
+  c: Cell,
+  visits: Record<string, number[]>,
+  revealed: Record<string, number>,
+  rules: RuleSet
+): number {
+  let best = 0;
+
+  for (const k of Object.keys(revealed)) {
+    if (!revealed[k]) continue;
+
+    const turns = visits[k];
+    if (!turns || turns.length === 0) continue;
+
+    const t = Math.min(...turns); // その痕跡が示すターン（あなたの実装では最小）
+    const [r, cc] = k.split(",").map((x) => parseInt(x, 10));
+    const tr: Cell = { r, c: cc };
+
+    // 痕跡の隣接（上下左右）だけを加点
+    if (manhattanCell(c, tr) !== 1) continue;
+
+    // ★重み：最後の強調ターン（オレンジ）を最優先、最初（黄色）も強め、その他は弱め
+    const w = traceWeight(t, rules);
+
+    best = Math.max(best, w);
+  }
+
+  return best; // 0〜1.0
+}
+
+function bestCellByHeat(heat: number[][], rng: Rng): Cell {
+  let best: Cell = { r: 0, c: 0 };
+  let bestV = -1;
+  for (let r = 0; r < heat.length; r++) {
+    for (let c = 0; c < heat[r].length; c++) {
+      const v = heat[r][c] + rng.next() * 0.002;
+      if (v > bestV) {
+        bestV = v;
+        best = { r, c };
+      }
+    }
+  }
+  return best;
+}
+
+function bestSearchTarget(
+  cand: Cell[],
+  heat: number[][],
+  searched: Record<string, boolean>,
+  revealed: Record<string, number>,
+  visits: Record<string, number[]>,
+  rules: RuleSet,
+  rng: Rng,
+  announced: readonly Announcement[],
+  currentTurn: number
+): Cell {
+  // 痕跡セル・前のターンに公開された位置（過去に居た確定）は「犯人が今いない」ので捜索候補から外す
+  const passed = new Set(announced.filter((a) => a.turn < currentTurn).map((a) => keyCell(a.cell)));
+  const filtered = cand.filter((c) => !revealed[keyCell(c)] && !passed.has(keyCell(c)));
+  const useCand = filtered.length > 0 ? filtered : cand; // 念のため
+
+  const scored = useCand.map((c) => {
+    const k = keyCell(c);
+
+    const hs = heat[c.r][c.c];                 // 既存の確率分布
+    const ns = searched[k] ? 0 : 1;            // 未捜索を優先
+
+    // 係数は好みで調整可：まずはこのくらいが追跡っぽい
+    const adj = traceAdjBonus(c, visits, revealed, rules);
+    const score = hs * 1.4 + ns * 0.9 + adj * 2.8 + rng.next() * 0.01;
+
+    return { c, score };
+  });
+
+  scored.sort((a, b) => b.score - a.score);
+  return scored[0].c;
+}
+
+/**
+ * ヘリが重ならないように移動先を選ぶ（occupied を避ける）
+ * 近さは target を捜索できる交差点までの移動手数（閉じた道路は迂回）
+ */
+function bestMoveNodeTowardAvoidOccupied(node: Node, target: Cell, occupied: Set<string>, rules: RuleSet): Node {
+  const neigh = neighborsNode(node, rules).filter((n) => !occupied.has(keyNode(n)));
+  if (neigh.length === 0) return node;
+
+  const searchers = allNodes(rules).filter((n) => searchableCells(n, rules).some((c) => keyCell(c) === keyCell(target)));
+  const dist = nodeDistances(searchers, rules);
+
+  let best = neigh[0];
+  let bestD = Number.POSITIVE_INFINITY;
+  for (const n of neigh) {
+    const d = dist[n.r][n.c];
+    if (d < bestD) {
+      bestD = d;
+      best = n;
+    }
+  }
+  return best;
+}
+
+// まだ行動できる部隊（動けない地上部隊は除く）
+function unactedHelis(s: GameState) {
+  return s.helicopters
+    .map((_, idx) => idx)
+    .filter((idx) => !s.heliActed[idx] && (!onCell(s.heliKinds[idx]) || unitMoves(s, idx).length > 0));
+}
+
+// 他のヘリ・ドローンがいる交差点
+function otherHeliNodes(s: GameState, heli: number) {
+  const occupied = new Set(s.helicopters.flatMap((h, i) => (onCell(s.heliKinds[i]) ? [] : [keyNode(h)])));
+  occupied.delete(keyNode(s.helicopters[heli]));
+  return occupied;
+}
+
+/**
+ * 地上部隊の1手：入れる隣のビルのうち、犯人がいそうなところへ（入ると捜索になる）
+ * 痕跡のビル・前のターンに公開された位置には今はいないので後回し
+ */
+function groundUnitMove(s: GameState, heli: number, heat: number[][], rng: Rng, announced: readonly Announcement[]): Action {
+  const passed = new Set(announced.filter((a) => a.turn < s.turn).map((a) => keyCell(a.cell)));
+  const scored = unitMoves(s, heli).map((c) => {
+    const k = keyCell(c);
+    const stale = s.revealed[k] || passed.has(k) ? 0 : 1;
+    return { c, score: heat[c.r][c.c] * stale + (s.searched[k] ? 0 : 0.2) + rng.next() * 0.01 };
+  });
+  scored.sort((a, b) => b.score - a.score);
+  return { type: "MOVE_HELI", heli, to: scored[0].c };
+}
+
+// ロードブロックは犯人がいそうな度合い（buildHeat）がこれ以上のビルにだけ置く
+const ROADBLOCK_HEAT = 0.5;
+
+/**
+ * ロードブロックを置くビル：部隊の届くビルのうちヒートマップが一番高いところ（ROADBLOCK_HEAT 未満なら置かない）
+ * 痕跡のビル・前のターンに公開された位置は再訪なしで犯人がもう入らないので除く
+ */
+function bestRoadblockTarget(s: GameState, heli: number, heat: number[][], rng: Rng, announced: readonly Announcement[]): Cell | null {
+  const passed = new Set(announced.filter((a) => a.turn < s.turn).map((a) => keyCell(a.cell)));
+  const scored = roadblockCells(s, heli)
+    .filter((c) => !s.revealed[keyCell(c)] && !passed.has(keyCell(c)))
+    .map((c) => ({ c, score: heat[c.r][c.c] + rng.next() * 0.01 }));
+  scored.sort((a, b) => b.score - a.score);
+  return scored.length > 0 && scored[0].score >= ROADBLOCK_HEAT ? scored[0].c : null;
+}
+
+/**
+ * Normal：ヒートマップ＋ランダムな移動／捜索（ときどきヒートマップの高いビルにロードブロック）
+ */
+function chooseNormalPoliceAction(s: GameState, rng: Rng): Action | null {
+  const announced = announcementsOf(s.log);
+  const heat = policeHeat(s, announced);
+
+  const remaining = unactedHelis(s);
+  if (remaining.length === 0) return null;
+
+  // 「必ず全機行動」なので、ランダムではなく先頭（未行動）を使う
+  const heliIndex = remaining[0];
+  const heliNode = s.helicopters[heliIndex];
+  const isLastTurn = s.turn >= s.rules.maxTurn;
+  const hasAnyTrace = Object.values(s.revealed).some(Boolean) || announced.length > 0;
+
+  // 手がかりがないうちはどこも同じなので置かない。最終ターンのあとは犯人が動かないので置かない
+  if (s.rules.roadblockTurns > 0 && hasAnyTrace && !isLastTurn && rng.next() < 0.3) {
+    const cell = bestRoadblockTarget(s, heliIndex, heat, rng, announced);
+    if (cell) return { type: "ROADBLOCK", heli: heliIndex, cell };
+  }
+
+  if (onCell(s.heliKinds[heliIndex])) return groundUnitMove(s, heliIndex, heat, rng, announced);
+
+  // 最終ターンは移動しない（既存仕様）。捜索したドローンも動けない
+  const preferMove = (isLastTurn ? false : rng.next() < (hasAnyTrace ? 0.55 : 0.3)) && canUnitMove(s, heliIndex);
+
+  // ---- まず移動を試す（待機禁止なので、移動できないときは必ず捜索にフォールバック） ----
+  if (preferMove) {
+    const target = bestCellByHeat(heat, rng);
+    const occupied = otherHeliNodes(s, heliIndex);
+
+    const to = bestMoveNodeTowardAvoidOccupied(heliNode, target, occupied, s.rules);
+
+    // 移動できたか（隣接かつ別マス）
+    const canMove =
+      (to.r !== heliNode.r || to.c !== heliNode.c) &&
+      neighborsNode(heliNode, s.rules).some((x) => keyNode(x) === keyNode(to)) &&
+      !occupied.has(keyNode(to));
+
+    if (canMove) return { type: "MOVE_HELI", heli: heliIndex, to };
+    // 移動できないなら捜索へ（待機なし）
+  }
+
+  // ---- 捜索 ----
+  const target = bestSearchTarget(unitSearchCells(s, heliIndex), heat, s.searched, s.revealed, mergedVisits(s.criminals), s.rules, rng, announced, s.turn);
+  return { type: "SEARCH", heli: heliIndex, target };
+}
+
+/**
+ * Easy：半分はでたらめに動く（残りは Normal）
+ */
+function chooseEasyPoliceAction(s: GameState, rng: Rng): Action | null {
+  if (rng.next() >= 0.5) return chooseNormalPoliceAction(s, rng);
+
+  const remaining = unactedHelis(s);
+  if (remaining.length === 0) return null;
+
+  const heliIndex = remaining[0];
+  const moves = unitMoves(s, heliIndex);
+  // 地上部隊は動くこと＝捜索
+  if (onCell(s.heliKinds[heliIndex])) return { type: "MOVE_HELI", heli: heliIndex, to: pickRandom(moves, rng) };
+
+  if (moves.length > 0 && s.turn < s.rules.maxTurn && rng.next() < 0.5) {
+    return { type: "MOVE_HELI", heli: heliIndex, to: pickRandom(moves, rng) };
+  }
+  return { type: "SEARCH", heli: heliIndex, target: pickRandom(unitSearchCells(s, heliIndex), rng) };
+}
+
+// 打ち切ったときの経路数は数えた順に偏るので使わない。通ったビルも分からないので痕跡は見込まない
+function routeWeights(d: Deduction): Pick<Deduction, "total" | "endCount" | "visitCount"> {
+  if (d.exact) return d;
+  const endCount: number[][] = d.possible.map((row) => row.map((p) => (p ? 1 : 0)));
+  return {
+    total: endCount.flat().reduce((n, w) => n + w, 0),
+    endCount,
+    visitCount: endCount.map((row) => row.map(() => 0)),
+  };
+}
+
+/**
+ * Hard：ありうる経路を全部数え、その集合が一番小さくなる行動を選ぶ
+ * - 捜索：結果（確保／痕跡／ハズレ）で経路が分かれるので、残る経路数の期待値が小さいほど良い
+ * - 移動：次ターンに犯人が入りうるビルをより多くカバーできる交差点へ
+ * - 地上部隊：入ったビルを捜索するので、捜索と同じ数え方で隣のビルへ
+ * - ロードブロック：ヒートマップ（buildHeat）の高いビルほど良い（最終ターンは置かない）
+ * 複数犯人なら捕まっていない犯人ごとに数えて足し合わせる
+ * 経路を数えきれなかった犯人は、いるかもしれないビル（possible）を1通りずつとして数える
+ */
+function chooseHardPoliceAction(s: GameState, rng: Rng): Action | null {
+  const ds = s.criminals.flatMap((cr, i) => (cr.caught ? [] : [routeWeights(deduceCriminal(s, i))]));
+  // 矛盾（ありえない）のときは Normal に任せる
+  if (ds.length === 0 || ds.some((d) => d.total === 0)) return chooseNormalPoliceAction(s, rng);
+
+  const remaining = unactedHelis(s);
+  if (remaining.length === 0) return null;
+
+  const { rules } = s;
+  const isLastTurn = s.turn >= rules.maxTurn;
+
+  // 次ターンに各ビルにいる見込み（現在位置から隣へ等分）
+  const reach = Array.from({ length: rules.size }, () => Array.from({ length: rules.size }, () => 0));
+  for (const d of ds) {
+    for (let r = 0; r < rules.size; r++) {
+      for (let c = 0; c < rules.size; c++) {
+        const w = d.endCount[r][c];
+        if (w === 0) continue;
+        const neigh = criminalSteps({ r, c }, rules);
+        for (const { to } of neigh) reach[to.r][to.c] += w / d.total / neigh.length;
+      }
+    }
+  }
+  const coverage = (n: Node) => Math.max(...searchableCells(n, rules).map((c) => reach[c.r][c.c]));
+
+  const candidates: { action: Action; score: number }[] = [];
+  const consider = (action: Action, score: number) => candidates.push({ action, score: score + rng.next() * 1e-6 });
+
+  // ロードブロックの置き場所はヒートマップで選ぶ（手がかりがないうちは置かない）
+  const announced = announcementsOf(s.log);
+  const hasAnyTrace = Object.values(s.revealed).some(Boolean) || announced.length > 0;
+  const roadblockHeat = rules.roadblockTurns > 0 && hasAnyTrace && !isLastTurn ? policeHeat(s, announced) : null;
+
+  const searchScore = (c: Cell) => {
+    let score = 0;
+    for (const { total, endCount, visitCount } of ds) {
+      const caught = endCount[c.r][c.c];
+      // トンネルは通っていても痕跡が出ない（ハズレと区別できない）
+      const trace = terrainOf(c, rules) === "TUNNEL" ? 0 : visitCount[c.r][c.c];
+      const miss = total - caught - trace;
+      const expectedRemaining = (trace * trace + miss * miss) / total;
+      score += (total - expectedRemaining) / total;
+    }
+    return score;
+  };
+
+  for (const heli of remaining) {
+    const node = s.helicopters[heli];
+
+    if (roadblockHeat) {
+      for (const c of roadblockCells(s, heli)) {
+        if (s.revealed[keyCell(c)]) continue;
+        // 捜索の点数（減る経路の割合）より控えめに見る
+        consider({ type: "ROADBLOCK", heli, cell: c }, roadblockHeat[c.r][c.c] * 0.3);
+      }
+    }
+
+    if (onCell(s.heliKinds[heli])) {
+      for (const c of unitMoves(s, heli)) consider({ type: "MOVE_HELI", heli, to: c }, searchScore(c));
+      continue;
+    }
+
+    for (const c of unitSearchCells(s, heli)) consider({ type: "SEARCH", heli, target: c }, searchScore(c));
+
+    if (isLastTurn || !canUnitMove(s, heli)) continue;
+
+    const occupied = otherHeliNodes(s, heli);
+    const here = coverage(node);
+    for (const n of neighborsNode(node, rules)) {
+      if (occupied.has(keyNode(n))) continue;
+      consider({ type: "MOVE_HELI", heli, to: n }, coverage(n) - here);
+    }
+  }
+
+  candidates.sort((a, b) => b.score - a.score);
+  return candidates[0]?.action ?? null;
+}
+
+/**
+ * 部隊の初期配置（rules.units の順）：ヘリ・ドローンはでたらめな交差点、地上部隊はでたらめなビル
+ * 地上部隊がいなければ今まで通りの乱数の使い方
+ */
+function placeUnits(s: GameState, rng: Rng): Node[] {
+  const { rules } = s;
+  const air = uniqueRandomNodes(rules.units.filter((kind) => !onCell(kind)).length, rules, rng);
+  const ground: Cell[] = [];
+  for (const kind of rules.units) {
+    if (!onCell(kind)) continue;
+    let c = randomCell(rules, rng);
+    while (ground.some((g) => sameCell(g, c))) c = randomCell(rules, rng);
+    ground.push(c);
+  }
+  return rules.units.map((kind) => (onCell(kind) ? ground.shift()! : air.shift()!));
+}
+
+function policeStrategy(level: AiLevel, choose: PoliceStrategy["nextAction"]): PoliceStrategy {
+  return {
+    id: level,
+    placeHelis: placeUnits,
+    nextAction: (s, rng) => (s.actionsLeft > 0 ? choose(s, rng) : null),
+  };
+}
+
+/**
+ * 警察AI（強さごと）
+ */
+export const POLICE_AI: Record<AiLevel, PoliceStrategy> = {
+  EASY: policeStrategy("EASY", chooseEasyPoliceAction),
+  NORMAL: policeStrategy("NORMAL", chooseNormalPoliceAction),
+  HARD: policeStrategy("HARD", chooseHardPoliceAction),
+};
+
+/**
+ * 警察AIの1手（POLICE_AI_TURN 中に未行動ヘリで移動 or 捜索）
+ */
+export function choosePoliceAiAction(s: GameState, rng: Rng): Action | null {
+  if (s.phase !== "POLICE_AI_TURN") return null;
+  if (activeCriminals(s).length === 0) return null;
+  return POLICE_AI[s.policeAiLevel].nextAction(s, rng);
+}
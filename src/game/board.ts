@@ -0,0 +1,237 @@
+import type { Cell, Node, RuleSet, Terrain } from "./types.ts";
+import type { Rng } from "./rng.ts";
+
+export function keyCell(c: Cell) {
+  return `${c.r},${c.c}`;
+}
+export function keyNode(n: Node) {
+  return `${n.r},${n.c}`;
+}
+
+export function sameCell(a: Cell, b: Cell) {
+  return a.r === b.r && a.c === b.c;
+}
+
+// 交差点は盤面の内側だけ（size-1 x size-1）
+export function nodeCount(rules: RuleSet) {
+  return rules.size - 1;
+}
+
+export function inBoundsCell(c: Cell, rules: RuleSet) {
+  return c.r >= 0 && c.r < rules.size && c.c >= 0 && c.c < rules.size;
+}
+// 地図で通れないビル（公園・川など）：犯人は入れず、捜索もできない
+export function isBlocked(c: Cell, rules: RuleSet) {
+  return rules.map.blocked.includes(keyCell(c));
+}
+export function neighborsCell(c: Cell, rules: RuleSet): Cell[] {
+  return [
+    { r: c.r - 1, c: c.c },
+    { r: c.r + 1, c: c.c },
+    { r: c.r, c: c.c - 1 },
+    { r: c.r, c: c.c + 1 },
+  ].filter((x) => inBoundsCell(x, rules) && !isBlocked(x, rules));
+}
+
+export function terrainOf(c: Cell, rules: RuleSet): Terrain | null {
+  return rules.map.terrain[keyCell(c)] ?? null;
+}
+
+/** 犯人の1ターンの移動（to＝行き先、via＝高速道路で通り抜けるビル） */
+export type CriminalStep = { to: Cell; via: Cell | null };
+
+/**
+ * 犯人が1ターンで行けるビル：隣の通れるビル。高速道路のビルからは、まっすぐ2マス先も
+ * visited を渡すと、通ったビル（to と via）を避ける
+ */
+export function criminalSteps(from: Cell, rules: RuleSet, visited?: ReadonlySet<string>): CriminalStep[] {
+  const free = (c: Cell) => !visited?.has(keyCell(c));
+  const highway = terrainOf(from, rules) === "HIGHWAY";
+  const steps: CriminalStep[] = [];
+  for (const n of neighborsCell(from, rules)) {
+    if (!free(n)) continue;
+    steps.push({ to: n, via: null });
+    if (!highway) continue;
+    const far = { r: 2 * n.r - from.r, c: 2 * n.c - from.c };
+    if (inBoundsCell(far, rules) && !isBlocked(far, rules) && free(far)) steps.push({ to: far, via: n });
+  }
+  return steps;
+}
+
+export function inBoundsNode(n: Node, rules: RuleSet) {
+  const N = nodeCount(rules);
+  return n.r >= 0 && n.r < N && n.c >= 0 && n.c < N;
+}
+// 隣り合う2つの交差点を結ぶ道路（向きによらず同じキー）
+export function roadKey(a: Node, b: Node) {
+  const [p, q] = a.r < b.r || (a.r === b.r && a.c < b.c) ? [a, b] : [b, a];
+  return `${keyNode(p)}|${keyNode(q)}`;
+}
+export function isRoadClosed(a: Node, b: Node, rules: RuleSet) {
+  return rules.map.closedRoads.includes(roadKey(a, b));
+}
+export function neighborsNode(n: Node, rules: RuleSet): Node[] {
+  return [
+    { r: n.r - 1, c: n.c },
+    { r: n.r + 1, c: n.c },
+    { r: n.r, c: n.c - 1 },
+    { r: n.r, c: n.c + 1 },
+  ].filter((x) => inBoundsNode(x, rules) && !isRoadClosed(n, x, rules));
+}
+
+// マスの呼び名（列は A, B, C…、行は 1, 2, 3…：読み上げ用）
+export function cellName(c: Cell) {
+  return `${String.fromCharCode(65 + c.c)}${c.r + 1}`;
+}
+// 交差点は斜めに挟む2ビルで呼ぶ（例：A1-B2）
+export function nodeName(n: Node) {
+  return `${cellName(n)}-${cellName({ r: n.r + 1, c: n.c + 1 })}`;
+}
+
+export function allCells(rules: RuleSet): Cell[] {
+  const a: Cell[] = [];
+  for (let r = 0; r < rules.size; r++) for (let c = 0; c < rules.size; c++) a.push({ r, c });
+  return a;
+}
+// 犯人が入れるビルだけ
+export function openCells(rules: RuleSet): Cell[] {
+  return allCells(rules).filter((c) => !isBlocked(c, rules));
+}
+export function allNodes(rules: RuleSet): Node[] {
+  const N = nodeCount(rules);
+  const a: Node[] = [];
+  for (let r = 0; r < N; r++) for (let c = 0; c < N; c++) a.push({ r, c });
+  return a;
+}
+
+// 交差点の周囲4ビルのうち捜索できるもの（交差点は盤面の内側なので常に範囲内・通れないビルは除く）
+export function surroundingCells(node: Node, rules: RuleSet): Cell[] {
+  const { r, c } = node;
+  return [
+    { r, c },
+    { r, c: c + 1 },
+    { r: r + 1, c },
+    { r: r + 1, c: c + 1 },
+  ].filter((x) => !isBlocked(x, rules));
+}
+
+/**
+ * ヘリがその交差点から捜索できるビル：周囲4ビル＋隣の交差点の周囲にある屋上（ROOFTOP）
+ * 屋上は見晴らしがいいので1つ先の交差点からも見える（道路の通行止めは関係ない）
+ */
+export function searchableCells(node: Node, rules: RuleSet): Cell[] {
+  const cells = surroundingCells(node, rules);
+  const seen = new Set(cells.map(keyCell));
+  const around = [
+    { r: node.r - 1, c: node.c },
+    { r: node.r + 1, c: node.c },
+    { r: node.r, c: node.c - 1 },
+    { r: node.r, c: node.c + 1 },
+  ].filter((n) => inBoundsNode(n, rules));
+  for (const n of around) {
+    for (const x of surroundingCells(n, rules)) {
+      const k = keyCell(x);
+      if (seen.has(k) || terrainOf(x, rules) !== "ROOFTOP") continue;
+      seen.add(k);
+      cells.push(x);
+    }
+  }
+  return cells;
+}
+
+// 道路の一覧（隣り合う交差点の組：地図エディタと描画用）
+export function allRoads(rules: RuleSet): [Node, Node][] {
+  const a: [Node, Node][] = [];
+  for (const n of allNodes(rules)) {
+    if (inBoundsNode({ r: n.r, c: n.c + 1 }, rules)) a.push([n, { r: n.r, c: n.c + 1 }]);
+    if (inBoundsNode({ r: n.r + 1, c: n.c }, rules)) a.push([n, { r: n.r + 1, c: n.c }]);
+  }
+  return a;
+}
+
+// 強調ターンの色（traceTurns の先頭から順に使う）
+const TRACE_PALETTE = ["gold", "orange", "#a855f7", "#ec4899"];
+
+export function traceColor(visitTurn: number, rules: RuleSet) {
+  const i = rules.traceTurns.indexOf(visitTurn);
+  if (i < 0) return "gray";
+  return TRACE_PALETTE[Math.min(i, TRACE_PALETTE.length - 1)];
+}
+
+/**
+ * 痕跡の重み：最後の強調ターン（標準ならオレンジ）を最優先、他の強調ターンも強め、その他は弱め
+ */
+export function traceWeight(visitTurn: number, rules: RuleSet) {
+  const i = rules.traceTurns.indexOf(visitTurn);
+  if (i < 0) return 0.25;
+  return i === rules.traceTurns.length - 1 ? 1.0 : 0.65;
+}
+
+export function pickRandom<T>(arr: readonly T[], rng: Rng): T {
+  return arr[Math.floor(rng.next() * arr.length)];
+}
+// 通れないビルは引き直す（何も閉じていない街なら乱数の使い方は今まで通り）
+export function randomCell(rules: RuleSet, rng: Rng): Cell {
+  for (;;) {
+    const c = { r: Math.floor(rng.next() * rules.size), c: Math.floor(rng.next() * rules.size) };
+    if (!isBlocked(c, rules)) return c;
+  }
+}
+
+export function manhattanCell(a: Cell, b: Cell) {
+  return Math.abs(a.r - b.r) + Math.abs(a.c - b.c);
+}
+
+/**
+ * 犯人の歩く距離：from から各ビルまでの最短ターン数（通れないビルは迂回・高速道路は2マス進める・行けなければ Infinity）
+ * 何もない街ならマンハッタン距離と同じ
+ */
+export function cellDistances(from: Cell, rules: RuleSet): number[][] {
+  const dist = Array.from({ length: rules.size }, () => Array.from({ length: rules.size }, () => Infinity));
+  dist[from.r][from.c] = 0;
+  const queue = [from];
+  for (let i = 0; i < queue.length; i++) {
+    const cur = queue[i];
+    for (const { to } of criminalSteps(cur, rules)) {
+      if (dist[to.r][to.c] !== Infinity) continue;
+      dist[to.r][to.c] = dist[cur.r][cur.c] + 1;
+      queue.push(to);
+    }
+  }
+  return dist;
+}
+
+/** ヘリの移動距離：sources のどれかから各交差点までの最短手数（閉じた道路は迂回・行けなければ Infinity） */
+export function nodeDistances(sources: readonly Node[], rules: RuleSet): number[][] {
+  const N = nodeCount(rules);
+  const dist = Array.from({ length: N }, () => Array.from({ length: N }, () => Infinity));
+  const queue: Node[] = [];
+  for (const s of sources) {
+    if (dist[s.r][s.c] === 0) continue;
+    dist[s.r][s.c] = 0;
+    queue.push(s);
+  }
+  for (let i = 0; i < queue.length; i++) {
+    const cur = queue[i];
+    for (const n of neighborsNode(cur, rules)) {
+      if (dist[n.r][n.c] !== Infinity) continue;
+      dist[n.r][n.c] = dist[cur.r][cur.c] + 1;
+      queue.push(n);
+    }
+  }
+  return dist;
+}
+
+export function uniqueRandomNodes(count: number, rules: RuleSet, rng: Rng): Node[] {
+  const all = allNodes(rules);
+  const picked: Node[] = [];
+  const used = new Set<string>();
+  while (picked.length < count && picked.length < all.length) {
+    const n = pickRandom(all, rng);
+    const k = keyNode(n);
+    if (used.has(k)) continue;
+    used.add(k);
+    picked.push(n);
+  }
+  return picked;
+}
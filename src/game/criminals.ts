@@ -0,0 +1,89 @@
+import type { Cell, Criminal, GameState } from "./types.ts";
+import { criminalSteps, keyCell, sameCell } from "./board.ts";
+import { closedCells } from "./units.ts";
+
+/**
+ * 犯人（複数犯人モードでは rules.criminalCount 人）の状態のまとめ
+ * 犯人は番号順に隠れ、毎ターン番号順に1人ずつ動く（捕まった犯人・動けない犯人は飛ばす）
+ */
+
+export const MAX_CRIMINALS = 3;
+
+export function newCriminals(count: number): Criminal[] {
+  return Array.from({ length: count }, () => ({ pos: null, path: [], visits: {}, caught: false }));
+}
+
+/** 盤面にいて捕まっていない犯人の番号 */
+export function activeCriminals(s: Pick<GameState, "criminals">): number[] {
+  return s.criminals.flatMap((cr, i) => (cr.pos && !cr.caught ? [i] : []));
+}
+
+/** そのビルにいる（捕まっていない）犯人の番号 */
+export function criminalsAt(s: Pick<GameState, "criminals">, c: Cell): number[] {
+  return s.criminals.flatMap((cr, i) => (cr.pos && !cr.caught && sameCell(cr.pos, c) ? [i] : []));
+}
+
+/** そのビルを通った犯人の番号（痕跡の色分け用） */
+export function visitorsOf(criminals: readonly Criminal[], k: string): number[] {
+  return criminals.flatMap((cr, i) => ((cr.visits[k] ?? []).length > 0 ? [i] : []));
+}
+
+/** 全員の訪問をまとめる（痕跡はどの犯人のものでもビルごとに出る） */
+export function mergedVisits(criminals: readonly Criminal[]): Record<string, number[]> {
+  if (criminals.length === 1) return criminals[0].visits;
+  const visits: Record<string, number[]> = {};
+  for (const cr of criminals) {
+    for (const [k, turns] of Object.entries(cr.visits)) visits[k] = [...(visits[k] ?? []), ...turns].sort((a, b) => a - b);
+  }
+  return visits;
+}
+
+/**
+ * 警察に見えている訪問：痕跡が出たビルの、痕跡が出たターンまでの訪問
+ * そのあとに別の犯人が入っても、もう一度捜索するまでは見えない（今の居場所が分かってしまうので）
+ */
+export function revealedVisits(visits: Record<string, number[]>, revealed: Record<string, number>): Record<string, number[]> {
+  const shown: Record<string, number[]> = {};
+  for (const [k, turns] of Object.entries(visits)) {
+    const seen = turns.filter((t) => t <= (revealed[k] ?? 0));
+    if (seen.length > 0) shown[k] = seen;
+  }
+  return shown;
+}
+
+// 今いるビルに着いたターン（再訪なしなのでそのビルの訪問は1つ）
+function arrivedAt(cr: Criminal) {
+  return cr.pos ? Math.max(0, ...(cr.visits[keyCell(cr.pos)] ?? [])) : 0;
+}
+
+type MoveInput = Pick<GameState, "rules" | "criminals" | "helicopters" | "heliKinds" | "log" | "turn">;
+
+/** 自分のルートで行き止まり（再訪なしなので、もうずっと動けない） */
+export function isStranded(s: Pick<GameState, "rules" | "criminals">, i: number): boolean {
+  const { pos, visits } = s.criminals[i];
+  return pos != null && criminalSteps(pos, s.rules, new Set(Object.keys(visits))).length === 0;
+}
+
+/**
+ * このターンに動けるか（行き止まり・地上部隊やロードブロックに囲まれていればだめ）
+ * 動けない犯人はその場にとどまり、捜索されれば捕まる（囲みが解ければまた動ける）
+ */
+export function canCriminalMove(s: MoveInput, i: number): boolean {
+  const { pos, visits } = s.criminals[i];
+  return pos != null && criminalSteps(pos, s.rules, new Set([...Object.keys(visits), ...closedCells(s)])).length > 0;
+}
+
+/**
+ * 次に操作する犯人（いなければ null）
+ * - CRIMINAL_HIDE：まだ隠れていない犯人
+ * - CRIMINAL_MOVE：このターンまだ動いていない、動ける犯人（動いた犯人は turn + 1 に着いている）
+ */
+export function nextCriminal(s: MoveInput & Pick<GameState, "phase">): number | null {
+  const i =
+    s.phase === "CRIMINAL_HIDE"
+      ? s.criminals.findIndex((cr) => cr.pos == null && !cr.caught)
+      : s.phase === "CRIMINAL_MOVE"
+      ? s.criminals.findIndex((cr, i) => cr.pos != null && !cr.caught && arrivedAt(cr) <= s.turn && canCriminalMove(s, i))
+      : -1;
+  return i >= 0 ? i : null;
+}
@@ -0,0 +1,286 @@
+import type { Cell, GameState, Node, RuleSet, UnitKind } from "./types.ts";
+import { criminalSteps, isBlocked, keyCell, terrainOf } from "./board.ts";
+import { onCell } from "./units.ts";
+
+/**
+ * 警察が知っている情報だけから、犯人の「ありうる経路」を全部数える（いるかもしれないビルは経路を数えずに求める）
+ * - 1ターンに隣接1マス移動・再訪なし（開始位置は不明・地図で通れないビルには入らない・高速道路からは2マス先も）
+ * - 痕跡：そのビルを通った（強調ターンの色ならそのターンちょうど、灰色なら強調ターン以外）
+ * - ハズレ捜索：捜索したターンまでにそのビルは通っていない（トンネルは痕跡が出ないので、そのターンにいなかっただけ）
+ * - 位置公開：公開されたターンにそのビルにいた
+ * - ロードブロック・地上部隊：封鎖しているあいだ・地上部隊がいるあいだの移動ではそのビルに入っていない
+ * - 動けない犯人（行き止まり・囲まれた）はその場にとどまる（新しく通るビルはない）
+ * - 複数犯人：犯人ごとに数える（痕跡は誰が通ったか分かるので、ほかの犯人の痕跡はその犯人にはハズレと同じ）
+ */
+export type Deduction = {
+  total: number; // 条件に合う経路の数
+  endCount: number[][]; // 現在位置ごとの経路数
+  visitCount: number[][]; // 現在位置より前に通った経路数（捜索で痕跡が出る数）
+  exact: boolean; // false：探索量の上限で打ち切った（経路数は数えたぶんだけ）
+  possible: boolean[][]; // 今いるかもしれないビル（打ち切っても欠けない）
+};
+
+// メインスレッドで呼ぶので、1フレーム（16ms 前後）に収まるように探索ノード数を制限する
+// 7x7 の終盤は打ち切りになることが多い（Hard の警察AIは possible を使う）
+// 打ち切ったときも possible はターンごとの「いるかもしれないビル」の集合から求めるので欠けない（再訪なしは見ないぶん広め）
+const NODE_BUDGET = 20_000;
+
+// 同じ盤面の推理は使い回す（盤面の描画ごと・警察AIの1手ごとに呼ぶので）。ルールごとに直近 CACHE_SIZE 件
+const CACHE_SIZE = 8;
+const cache = new WeakMap<RuleSet, Map<string, Deduction>>();
+
+type TraceInfo = { exactTurn: number | null; before: number };
+
+// 推理に使うのは警察にも見えている情報だけ（犯人ごとの visits は痕跡の色＝ターンと、誰の痕跡かの判定に使う）
+export type DeductionInput = Pick<GameState, "rules" | "turn" | "log" | "criminals">;
+
+export function deduceCriminal(s: DeductionInput, criminal = 0): Deduction {
+  // 結果が変わるのはターン・推理に使う出来事（捜索・位置公開・ロードブロック・地上部隊の位置）・その犯人の訪問だけ
+  const placed = s.log.find((e) => e.kind === "HELI_PLACED");
+  const facts = s.log.filter(
+    (e) =>
+      e.kind === "SEARCH" ||
+      e.kind === "ANNOUNCE" ||
+      e.kind === "ROADBLOCK" ||
+      e.kind === "HELI_PLACED" ||
+      (e.kind === "HELI_MOVE" && placed?.kind === "HELI_PLACED" && onCell(placed.kinds[e.heli]))
+  );
+  const key = JSON.stringify([criminal, s.turn, facts, s.criminals[criminal].visits]);
+  const byRules = cache.get(s.rules) ?? new Map<string, Deduction>();
+  cache.set(s.rules, byRules);
+
+  const hit = byRules.get(key);
+  if (hit) return hit;
+  const d = countPaths(s, criminal);
+  byRules.set(key, d);
+  if (byRules.size > CACHE_SIZE) byRules.delete(byRules.keys().next().value!);
+  return d;
+}
+
+function countPaths(s: DeductionInput, criminal: number): Deduction {
+  const { rules } = s;
+  const { visits } = s.criminals[criminal];
+  const size = rules.size;
+  const T = s.turn;
+
+  const endCount = Array.from({ length: size }, () => Array.from({ length: size }, () => 0));
+  const visitCount = Array.from({ length: size }, () => Array.from({ length: size }, () => 0));
+
+  // ハズレ：そのターンまで通っていない
+  const missUntil = new Map<string, number>();
+  // トンネルのハズレ：そのターンにそこにいない（"r,c@turn"）
+  const missAt = new Set<string>();
+  // 痕跡：通ったターンの条件
+  const traces = new Map<string, TraceInfo>();
+
+  for (const e of s.log) {
+    if (e.kind !== "SEARCH") continue;
+    const k = keyCell(e.target);
+    // そのターンまでにこの犯人が通っていれば痕跡
+    const turns = (visits[k] ?? []).filter((t) => t <= e.turn);
+    if (e.result === "CAUGHT" || (e.result === "MISS" && terrainOf(e.target, rules) === "TUNNEL")) {
+      // ほかの犯人が捕まった：この犯人はそのときそこにいなかった
+      missAt.add(`${k}@${e.turn}`);
+    } else if (e.result === "MISS" || turns.length === 0) {
+      missUntil.set(k, Math.max(missUntil.get(k) ?? 0, e.turn));
+    } else {
+      const first = Math.min(...turns);
+      const exactTurn = rules.traceTurns.includes(first) ? first : null;
+      const prev = traces.get(k);
+      traces.set(k, { exactTurn, before: Math.min(prev?.before ?? e.turn, e.turn) });
+    }
+  }
+
+  // 強調色の痕跡：そのターンちょうどそのビルを通った
+  const tracedAt = new Map<number, string>();
+  for (const [k, info] of traces) if (info.exactTurn != null) tracedAt.set(info.exactTurn, k);
+  // 位置公開：そのターンちょうどそこにいた
+  const announcedAt = new Map<number, string>();
+  for (const e of s.log) if (e.kind === "ANNOUNCE" && e.criminal === criminal) announcedAt.set(e.turn, keyCell(e.cell));
+  // 入れないビル（"r,c@turn"：そのターンに着く移動で入れない）
+  // ロードブロック：置いたターンから until ターンの移動では入れない（着くのは次のターン）
+  const sealedAt = new Set<string>();
+  for (const e of s.log) {
+    if (e.kind !== "ROADBLOCK") continue;
+    for (let t = e.turn + 1; t <= e.until + 1; t++) sealedAt.add(`${keyCell(e.cell)}@${t}`);
+  }
+  // 地上部隊：そのターンの警察の行動が終わったときにいるビルには、次のターンに着く移動で入れない（隠れるときも）
+  let units: Node[] = [];
+  let kinds: UnitKind[] = [];
+  let marked = 0;
+  const markGround = (t: number) => {
+    for (const [i, u] of units.entries()) if (onCell(kinds[i])) sealedAt.add(`${keyCell(u)}@${t}`);
+  };
+  for (const e of s.log) {
+    for (; marked < e.turn; marked++) markGround(marked + 1);
+    if (e.kind === "HELI_PLACED") {
+      units = e.helicopters;
+      kinds = e.kinds;
+      markGround(1);
+    }
+    if (e.kind === "HELI_MOVE") units = units.map((u, i) => (i === e.heli ? e.to : u));
+  }
+  for (; marked < T; marked++) markGround(marked + 1);
+
+  // passing：高速道路で通り抜けただけ（そのターンの居場所ではない）
+  function allowed(c: Cell, t: number, passing = false) {
+    const k = keyCell(c);
+    if (t <= (missUntil.get(k) ?? 0)) return false;
+    if (!passing && missAt.has(`${k}@${t}`)) return false;
+    if (sealedAt.has(`${k}@${t}`)) return false;
+
+    const req = announcedAt.get(t);
+    if (!passing && req != null && req !== k) return false;
+
+    const tr = traces.get(k);
+    if (tr) {
+      // 通り抜けただけなら、同じターンの捜索で痕跡になる
+      if (passing ? t > tr.before : t >= tr.before) return false;
+      if (tr.exactTurn != null ? t !== tr.exactTurn : rules.traceTurns.includes(t)) return false;
+    }
+    return true;
+  }
+
+  let total = 0;
+  let nodes = 0;
+  let exact = true;
+
+  const path: Cell[] = [];
+  const visited = new Set<string>();
+  let tracesHit = 0;
+  // 高速道路があれば1ターンで2つのビルを通れる
+  const perTurn = Object.values(rules.map.terrain).includes("HIGHWAY") ? 2 : 1;
+
+  // 強調色の痕跡があるターンは、通ったビル（高速道路なら2つ）のどれかがそのビル
+  function passesTrace(t: number, passed: Cell[]) {
+    const need = tracedAt.get(t);
+    return need == null || passed.some((c) => keyCell(c) === need);
+  }
+
+  // 行き止まりでとどまる：そのターンもそこにいる（捜索されていれば捕まっているはず）
+  function canStay(c: Cell, t: number) {
+    const k = keyCell(c);
+    if (t <= (missUntil.get(k) ?? 0) || missAt.has(`${k}@${t}`)) return false;
+    const req = announcedAt.get(t);
+    if (req != null && req !== k) return false;
+    const tr = traces.get(k);
+    return !(tr && t >= tr.before) && passesTrace(t, []);
+  }
+
+  function enter(c: Cell) {
+    const k = keyCell(c);
+    visited.add(k);
+    path.push(c);
+    if (traces.has(k)) tracesHit++;
+  }
+  function leave(c: Cell) {
+    const k = keyCell(c);
+    if (traces.has(k)) tracesHit--;
+    path.pop();
+    visited.delete(k);
+  }
+
+  function dfs(pos: Cell, t: number) {
+    if (++nodes > NODE_BUDGET) {
+      exact = false;
+      return;
+    }
+
+    if (t === T) {
+      if (tracesHit !== traces.size) return;
+      total++;
+      endCount[pos.r][pos.c]++;
+      for (let i = 0; i < path.length - 1; i++) visitCount[path[i].r][path[i].c]++;
+      return;
+    }
+
+    // 残り手数で未発見の痕跡を回りきれないなら打ち切り
+    if (traces.size - tracesHit > (T - t) * perTurn) return;
+
+    // 入れるビルがなければ（自分のルート・封鎖・地上部隊）その場にとどまる
+    const sealed = (c: Cell) => sealedAt.has(`${keyCell(c)}@${t + 1}`);
+    const steps = criminalSteps(pos, rules, visited).filter(({ to, via }) => !sealed(to) && !(via && sealed(via)));
+    if (steps.length === 0) {
+      if (canStay(pos, t + 1)) dfs(pos, t + 1);
+      return;
+    }
+
+    for (const { to, via } of steps) {
+      if (via && !allowed(via, t + 1, true)) continue;
+      if (!allowed(to, t + 1)) continue;
+      if (!passesTrace(t + 1, via ? [via, to] : [to])) continue;
+
+      if (via) enter(via);
+      enter(to);
+      dfs(to, t + 1);
+      leave(to);
+      if (via) leave(via);
+      if (!exact) return;
+    }
+  }
+
+  for (let r = 0; r < size && exact; r++) {
+    for (let c = 0; c < size && exact; c++) {
+      const start: Cell = { r, c };
+      if (isBlocked(start, rules) || !allowed(start, 1) || !passesTrace(1, [start])) continue;
+      enter(start);
+      dfs(start, 1);
+      leave(start);
+    }
+  }
+
+  // いるかもしれないビルをターンごとに広げる（経路は数えない）
+  // seen：そのターンまでに通ったかもしれないビル。動けずにとどまれるのは、入れるビルを全部通ったかもしれないときだけ
+  let reach: Cell[] = [];
+  const seen = new Set<string>();
+  for (let r = 0; r < size; r++) {
+    for (let c = 0; c < size; c++) {
+      const start: Cell = { r, c };
+      if (isBlocked(start, rules) || !allowed(start, 1) || !passesTrace(1, [start])) continue;
+      reach.push(start);
+      seen.add(keyCell(start));
+    }
+  }
+  for (let t = 1; t < T; t++) {
+    const next = new Map<string, Cell>();
+    const passed: string[] = [];
+    const sealed = (c: Cell) => sealedAt.has(`${keyCell(c)}@${t + 1}`);
+    for (const pos of reach) {
+      for (const { to, via } of criminalSteps(pos, rules)) {
+        if (sealed(to) || (via && sealed(via))) continue;
+        if (via && !allowed(via, t + 1, true)) continue;
+        if (!allowed(to, t + 1) || !passesTrace(t + 1, via ? [via, to] : [to])) continue;
+        next.set(keyCell(to), to);
+        passed.push(keyCell(to));
+        if (via) passed.push(keyCell(via));
+      }
+      const stuck = criminalSteps(pos, rules, seen).every(({ to, via }) => sealed(to) || (via != null && sealed(via)));
+      if (stuck && canStay(pos, t + 1)) next.set(keyCell(pos), pos);
+    }
+    for (const k of passed) seen.add(k);
+    reach = [...next.values()];
+  }
+
+  // 数えきれたときは経路のあるビルだけ（こちらのほうが正確）
+  const possible = Array.from({ length: size }, () => Array.from({ length: size }, () => false));
+  for (const c of reach) possible[c.r][c.c] = !exact || endCount[c.r][c.c] > 0;
+
+  return { total, endCount, visitCount, exact, possible };
+}
+
+/** 捕まっていない犯人全員の推理を重ねる（推理オーバーレイ用：どの犯人の経路かは区別しない） */
+export function deduceCriminals(s: DeductionInput): Deduction {
+  const list = s.criminals.flatMap((cr, i) => (cr.caught ? [] : [deduceCriminal(s, i)]));
+  if (list.length === 1) return list[0];
+
+  const size = s.rules.size;
+  const sum = (pick: (d: Deduction) => number[][]) =>
+    Array.from({ length: size }, (_, r) => Array.from({ length: size }, (_, c) => list.reduce((n, d) => n + pick(d)[r][c], 0)));
+  return {
+    total: list.reduce((n, d) => n + d.total, 0),
+    endCount: sum((d) => d.endCount),
+    visitCount: sum((d) => d.visitCount),
+    exact: list.every((d) => d.exact),
+    possible: Array.from({ length: size }, (_, r) => Array.from({ length: size }, (_, c) => list.some((d) => d.possible[r][c]))),
+  };
+}
@@ -0,0 +1,764 @@
+import type {
+  Cell,
+  Criminal,
+  GameState,
+  HandoffMessage,
+  LogEvent,
+  Node,
+  Phase,
+  Role,
+  RuleSet,
+  SearchMark,
+  Series,
+  UndoEntry,
+  UnitKind,
+} from "./types.ts";
+import { criminalSteps, inBoundsCell, inBoundsNode, isBlocked, keyCell, keyNode, pickRandom, sameCell, terrainOf } from "./board.ts";
+import { chooseCriminalAiMove, choosePoliceAiAction, CRIMINAL_AI, POLICE_AI } from "./ai.ts";
+import { activeCriminals, canCriminalMove, criminalsAt, isStranded, newCriminals, nextCriminal } from "./criminals.ts";
+import {
+  airUnitAt,
+  canUnitMove,
+  closedCells,
+  DRONE_SEARCHES,
+  groundUnitAt,
+  nextUnitKind,
+  onCell,
+  roadblockCells,
+  searchedThisTurn,
+  unitMoves,
+  unitSearchCells,
+} from "./units.ts";
+import { STANDARD_RULES } from "./rules.ts";
+import { createRng, randomSeed } from "./rng.ts";
+import { createSeries, policePlayerOf, recordSeriesResult, seriesWinner } from "./series.ts";
+
+/**
+ * ゲーム内の操作（UI・AI・他フロントエンド共通）
+ */
+export type Action =
+  | { type: "TOGGLE_HELI"; node: Node } // セットアップ：ヘリ・ドローンを置く／外す
+  | { type: "TOGGLE_GROUND"; cell: Cell } // セットアップ：地上部隊を置く／外す
+  | { type: "CLEAR_HELIS" }
+  | { type: "START_FROM_SETUP" }
+  | { type: "SELECT_HELI"; heli: number }
+  | { type: "MOVE_HELI"; heli: number; to: Node }
+  | { type: "SEARCH"; heli: number; target: Cell }
+  | { type: "ROADBLOCK"; heli: number; cell: Cell } // 部隊の届くビルを封鎖する（1行動）
+  | { type: "UNDO" } // 警察ターン内の直前の移動・ハズレ捜索・ロードブロックを取り消す
+  | { type: "END_POLICE_TURN" }
+  | { type: "CRIMINAL_CHOOSE_START"; cell: Cell }
+  | { type: "CRIMINAL_MOVE"; to: Cell }
+  | { type: "CRIMINAL_AI_MOVE" } // CRIMINAL_AI_MOVING の待ち時間が終わったら
+  | { type: "POLICE_AI_STEP" } // 警察AIの1手（POLICE_AI_TURN 中）
+  | { type: "ACCEPT_HANDOFF" };
+
+export type RejectReason =
+  | "WRONG_PHASE"
+  | "NOT_YOUR_TURN"
+  | "HANDOFF_PENDING"
+  | "NO_HANDOFF"
+  | "HELI_LIMIT"
+  | "HELI_COUNT"
+  | "NO_SUCH_HELI"
+  | "HELI_ALREADY_ACTED"
+  | "NO_ACTIONS_LEFT"
+  | "NODE_OCCUPIED"
+  | "NOT_ADJACENT"
+  | "OUT_OF_SEARCH_RANGE"
+  | "OUT_OF_ROADBLOCK_RANGE"
+  | "NO_ROADBLOCKS"
+  | "ALREADY_VISITED"
+  | "ALREADY_HIDDEN"
+  | "NO_CRIMINAL"
+  | "NOTHING_TO_UNDO"
+  | "OUT_OF_BOUNDS"
+  | "BLOCKED_CELL";
+
+export type ActionResult = { ok: true; state: GameState } | { ok: false; reason: RejectReason };
+
+function ok(state: GameState): ActionResult {
+  return { ok: true, state };
+}
+function reject(reason: RejectReason): ActionResult {
+  return { ok: false, reason };
+}
+
+/**
+ * 対戦開始時に決める設定（タイトル画面で選ぶ）
+ */
+export type GameSetup = Pick<GameState, "mode" | "role" | "rules" | "policeAiLevel" | "criminalAiLevel">;
+
+export function setupOf(s: GameState): GameSetup {
+  return { mode: s.mode, role: s.role, rules: s.rules, policeAiLevel: s.policeAiLevel, criminalAiLevel: s.criminalAiLevel };
+}
+
+function blankState(setup: GameSetup, seed: number, viewer: Role, phase: Phase): GameState {
+  const { rules } = setup;
+  return {
+    ...setup,
+    seed,
+    rngState: seed,
+    viewer,
+    phase,
+    turn: 1,
+    helicopters: [],
+    heliKinds: [],
+    selectedHeli: null,
+    actionsLeft: rules.actionsPerTurn,
+    heliActed: rules.units.map(() => false),
+    undoStack: [],
+    criminals: newCriminals(rules.criminalCount),
+    revealed: {},
+    searched: {},
+    lastPoliceSearches: [],
+    policeAiThinking: false,
+    criminalMoving: false,
+    moveWaitSec: 5,
+    winner: null,
+    log: [],
+    statsRecorded: false,
+    series: null,
+    handoff: { show: false, to: viewer, message: null },
+  };
+}
+
+/** タイトル画面（前回選んだルールやAIの強さは引き継ぐ） */
+export function createInitialState(prefs: Partial<GameSetup> = {}): GameState {
+  const setup: GameSetup = {
+    mode: "SINGLE",
+    role: null,
+    rules: prefs.rules ?? STANDARD_RULES,
+    policeAiLevel: prefs.policeAiLevel ?? "NORMAL",
+    criminalAiLevel: prefs.criminalAiLevel ?? "NORMAL",
+  };
+  return blankState(setup, 0, "POLICE", "ROLE_SELECT");
+}
+
+/**
+ * 新しい対戦を始める（同じシードなら乱数の結果も同じ）
+ * - PASS_PLAY：警察セットアップから
+ * - ONLINE：警察セットアップから（サーバーが持つ正本。role は各端末へ送るときに入れる）
+ * - SINGLE 警察：犯人AIの初期位置を抽選してセットアップへ
+ * - SINGLE 犯人：ヘリを配置し、犯人が初期位置を選ぶフェーズへ
+ */
+export function newGame(setup: GameSetup, seed: number = randomSeed()): GameState {
+  if (setup.mode === "PASS_PLAY") return blankState({ ...setup, role: null }, seed, "POLICE", "POLICE_SETUP");
+  if (setup.mode === "ONLINE") return blankState(setup, seed, "POLICE", "POLICE_SETUP");
+
+  const rng = createRng(seed);
+
+  if (setup.role === "POLICE") {
+    let s = blankState(setup, seed, "POLICE", "POLICE_SETUP");
+    for (let i = 0; i < s.criminals.length; i++) {
+      const c0 = CRIMINAL_AI[setup.criminalAiLevel].chooseStart(s, rng);
+      s = { ...s, ...criminalPlaced(s, i, c0) };
+    }
+    return { ...s, rngState: rng.state };
+  }
+
+  if (setup.role === "CRIMINAL") {
+    const base = blankState(setup, seed, "CRIMINAL", "CRIMINAL_HIDE");
+    const helicopters = POLICE_AI[setup.policeAiLevel].placeHelis(base, rng);
+    const heliKinds = setup.rules.units;
+    return {
+      ...base,
+      rngState: rng.state,
+      helicopters,
+      heliKinds,
+      log: [{ kind: "HELI_PLACED", turn: 1, helicopters, kinds: heliKinds }],
+    };
+  }
+
+  return createInitialState(setup);
+}
+
+/**
+ * 同じ条件で再戦（役割が決まっていなければタイトルへ）
+ * seed を渡すとその対戦を最初から再現する
+ * シリーズ中：試合の途中ならその試合をやり直し、END なら次の試合、決着していれば新しいシリーズ
+ */
+export function rematchState(s: GameState, seed?: number): GameState {
+  const { series } = s;
+  if (!series) return newGame(setupOf(s), seed);
+  if (s.phase !== "END") return { ...newGame(setupOf(s), seed), series };
+  if (seriesWinner(series) == null) return nextSeriesGame(s, series, seed);
+
+  const role = s.mode === "SINGLE" ? (series.firstPolice === 0 ? "POLICE" : "CRIMINAL") : s.role;
+  const first = newGame({ ...setupOf(s), role }, seed);
+  return { ...first, series: createSeries(series.length, first) };
+}
+
+/**
+ * シリーズの次の試合（役割を交代して新しいシードで）
+ * PASS_PLAY は次に警察をする人へ端末を渡すところから
+ */
+function nextSeriesGame(s: GameState, series: Series, seed?: number): GameState {
+  const next = { ...series, index: series.index + 1 };
+  const police = policePlayerOf(next, next.index);
+
+  if (s.mode === "SINGLE") {
+    const role = police === 0 ? "POLICE" : "CRIMINAL";
+    return { ...newGame({ ...setupOf(s), role }, seed), series: next };
+  }
+
+  return {
+    ...newGame(setupOf(s), seed),
+    series: next,
+    handoff: handoff("POLICE", { kind: "SERIES_NEXT", player: next.players[police], game: next.index + 1 }),
+  };
+}
+
+function logged(s: GameState, ...events: LogEvent[]): LogEvent[] {
+  return [...s.log, ...events];
+}
+
+// 位置公開ルール：公開ターンに着いたら犯人の現在地をログに残す（警察にも見える）
+function announce(rules: RuleSet, turn: number, criminal: number, cell: Cell): LogEvent[] {
+  return rules.revealTurns.includes(turn) ? [{ kind: "ANNOUNCE", turn, criminal, cell }] : [];
+}
+
+function handoff(to: Role, message: HandoffMessage): GameState["handoff"] {
+  return { show: true, to, message };
+}
+
+/**
+ * 人間どうしの対戦で相手に手番を渡す
+ * - PASS_PLAY：端末の受け渡し画面を出す
+ * - ONLINE：相手の端末がそのまま手番になる（受け渡しなし）
+ */
+function passTurn(s: GameState, to: Role, message: HandoffMessage): Pick<GameState, "viewer" | "handoff"> {
+  if (s.mode === "ONLINE") return { viewer: to, handoff: s.handoff };
+  return { viewer: s.viewer, handoff: handoff(to, message) };
+}
+
+/** 次の警察ターン（rules.actionsPerTurn 回行動）の初期化 */
+function policeTurnStart(s: GameState): Pick<GameState, "actionsLeft" | "heliActed" | "undoStack"> {
+  return { actionsLeft: s.rules.actionsPerTurn, heliActed: s.helicopters.map(() => false), undoStack: [] };
+}
+
+/**
+ * 人間の警察ターンなら今の状態を undo 用に積む（AIターンは積まない）
+ */
+function pushUndo(s: GameState): UndoEntry[] {
+  if (s.phase !== "POLICE_TURN") return s.undoStack;
+  const entry: UndoEntry = {
+    helicopters: s.helicopters,
+    heliActed: s.heliActed,
+    actionsLeft: s.actionsLeft,
+    searched: s.searched,
+    selectedHeli: s.selectedHeli,
+    logLength: s.log.length,
+  };
+  return [...s.undoStack, entry];
+}
+
+function applyUndo(s: GameState): ActionResult {
+  if (s.phase !== "POLICE_TURN") return reject("WRONG_PHASE");
+  if (!isPoliceViewer(s)) return reject("NOT_YOUR_TURN");
+
+  const entry = s.undoStack[s.undoStack.length - 1];
+  if (!entry) return reject("NOTHING_TO_UNDO");
+
+  return ok({
+    ...s,
+    helicopters: entry.helicopters,
+    heliActed: entry.heliActed,
+    actionsLeft: entry.actionsLeft,
+    searched: entry.searched,
+    selectedHeli: entry.selectedHeli,
+    log: s.log.slice(0, entry.logLength),
+    undoStack: s.undoStack.slice(0, -1),
+  });
+}
+
+// 観戦者はどのモードでも操作できない
+function isPoliceViewer(s: GameState) {
+  return s.viewer !== "SPECTATOR" && (s.mode === "SINGLE" || s.viewer === "POLICE");
+}
+function isCriminalViewer(s: GameState) {
+  return s.viewer !== "SPECTATOR" && (s.mode === "SINGLE" || s.viewer === "CRIMINAL");
+}
+
+function addVisit(visits: Record<string, number[]>, c: Cell, turn: number) {
+  const k = keyCell(c);
+  return { ...visits, [k]: Array.from(new Set([...(visits[k] ?? []), turn])) };
+}
+
+function withCriminal(s: GameState, i: number, cr: Criminal): Criminal[] {
+  return s.criminals.map((x, j) => (j === i ? cr : x));
+}
+
+/** 犯人 i が隠れる（Turn 1 の位置） */
+function criminalPlaced(s: GameState, i: number, c: Cell): Pick<GameState, "criminals" | "log"> {
+  return {
+    criminals: withCriminal(s, i, { ...s.criminals[i], pos: c, visits: { [keyCell(c)]: [1] }, path: [c] }),
+    log: logged(s, { kind: "CRIMINAL_START", turn: 1, criminal: i, cell: c }, ...announce(s.rules, 1, i, c)),
+  };
+}
+
+/**
+ * 犯人 i の1ターンの移動（高速道路で通り抜けたビル via も通ったことになる）
+ * 着くのは次のターン。state の turn は全員が動き終わってから進める
+ */
+function criminalMoved(s: GameState, i: number, to: Cell, via: Cell | null): Pick<GameState, "criminals" | "log"> {
+  const turn = s.turn + 1;
+  const passed = via ? [via, to] : [to];
+  const cr = s.criminals[i];
+  return {
+    criminals: withCriminal(s, i, {
+      ...cr,
+      pos: to,
+      visits: passed.reduce((v, c) => addVisit(v, c, turn), cr.visits),
+      path: [...cr.path, ...passed],
+    }),
+    log: logged(s, { kind: "CRIMINAL_MOVE", turn, criminal: i, to, ...(via ? { via } : {}) }, ...announce(s.rules, turn, i, to)),
+  };
+}
+
+/** 部隊が行動できるか（移動・捜索共通） */
+function checkHeliCanAct(s: GameState, heli: number): RejectReason | null {
+  if (s.phase !== "POLICE_TURN" && s.phase !== "POLICE_AI_TURN") return "WRONG_PHASE";
+  if (s.phase === "POLICE_TURN" && !isPoliceViewer(s)) return "NOT_YOUR_TURN";
+  if (heli < 0 || heli >= s.helicopters.length) return "NO_SUCH_HELI";
+  if (s.actionsLeft <= 0) return "NO_ACTIONS_LEFT";
+  if (s.heliActed[heli]) return "HELI_ALREADY_ACTED";
+  return null;
+}
+
+// 地上部隊は隣のビル、ヘリ・ドローンは隣の交差点へ（ドローンは捜索したターンは動けない）
+function applyMoveHeli(s: GameState, heli: number, to: Node): ActionResult {
+  const bad = checkHeliCanAct(s, heli);
+  if (bad) return reject(bad);
+  if (!canUnitMove(s, heli)) return reject("HELI_ALREADY_ACTED");
+
+  const from = s.helicopters[heli];
+  const ground = onCell(s.heliKinds[heli]);
+  const other = ground ? groundUnitAt(s, to) : airUnitAt(s, to);
+  if (other >= 0 && other !== heli) return reject("NODE_OCCUPIED");
+  if (!unitMoves(s, heli).some((n) => keyNode(n) === keyNode(to))) return reject("NOT_ADJACENT");
+
+  const helicopters = s.helicopters.slice();
+  helicopters[heli] = to;
+  const move: LogEvent = { kind: "HELI_MOVE", turn: s.turn, heli, from, to };
+
+  // 地上部隊は入ったビルをそのまま捜索する（1行動）
+  if (ground) return searchResult(s, { ...s, helicopters, log: logged(s, move) }, heli, to);
+
+  const heliActed = s.heliActed.slice();
+  heliActed[heli] = true;
+
+  return ok({
+    ...s,
+    helicopters,
+    heliActed,
+    selectedHeli: heli,
+    actionsLeft: s.actionsLeft - 1,
+    undoStack: pushUndo(s),
+    log: logged(s, move),
+  });
+}
+
+function applySearch(s: GameState, heli: number, target: Cell): ActionResult {
+  const bad = checkHeliCanAct(s, heli);
+  if (bad) return reject(bad);
+
+  const cand = unitSearchCells(s, heli);
+  if (!cand.some((c) => sameCell(c, target))) return reject("OUT_OF_SEARCH_RANGE");
+
+  return searchResult(s, s, heli, target);
+}
+
+/**
+ * 捜索の結果（before は行動前の状態：取り消し用。s は地上部隊なら移動した後の状態）
+ * ドローンは DRONE_SEARCHES 回捜索するまで行動済みにならない
+ */
+function searchResult(before: GameState, s: GameState, heli: number, target: Cell): ActionResult {
+  const k = keyCell(target);
+  const searched = { ...s.searched, [k]: true };
+
+  // ✅ 捜索マーク（直近3つ）は警察AIの分だけ保存（犯人側に見せる）
+  const lastPoliceSearches =
+    s.phase === "POLICE_AI_TURN"
+      ? [...s.lastPoliceSearches, { turn: s.turn, target, heliIndex: heli } satisfies SearchMark].slice(-3)
+      : s.lastPoliceSearches;
+
+  const heliActed = s.heliActed.slice();
+  heliActed[heli] = s.heliKinds[heli] !== "DRONE" || searchedThisTurn(s, heli).length + 1 >= DRONE_SEARCHES;
+
+  // そのビルにいた犯人は捕まって盤面から消える。全員捕まえたら警察の勝ち
+  const caught = criminalsAt(s, target);
+  if (caught.length > 0) {
+    const criminals = s.criminals.map((cr, i) => (caught.includes(i) ? { ...cr, caught: true } : cr));
+    const search: LogEvent = { kind: "SEARCH", turn: s.turn, heli, target, result: "CAUGHT", caught };
+
+    if (criminals.every((cr) => cr.caught)) {
+      return ok({
+        ...s,
+        criminals,
+        phase: "END",
+        winner: "POLICE",
+        selectedHeli: heli,
+        actionsLeft: 0,
+        policeAiThinking: false,
+        searched,
+        lastPoliceSearches,
+        undoStack: [],
+        log: logged(s, search, { kind: "END", turn: s.turn, winner: "POLICE" }),
+      });
+    }
+
+    // 残りの犯人を追う（確保は取り消せない）
+    return ok({
+      ...s,
+      criminals,
+      searched,
+      heliActed,
+      selectedHeli: heli,
+      actionsLeft: s.actionsLeft - 1,
+      lastPoliceSearches,
+      undoStack: [],
+      log: logged(s, search),
+    });
+  }
+
+  // トンネルは通っても痕跡が残らない
+  const revealed = { ...s.revealed };
+  const passed = terrainOf(target, s.rules) !== "TUNNEL" && s.criminals.some((cr) => (cr.visits[k] ?? []).length > 0);
+  if (passed) revealed[k] = s.turn;
+  const result = passed ? "TRACE" : "MISS";
+
+  return ok({
+    ...s,
+    searched,
+    revealed,
+    heliActed,
+    selectedHeli: heli,
+    actionsLeft: s.actionsLeft - 1,
+    lastPoliceSearches,
+    // 痕跡が出た捜索は取り消せない（それ以前の行動も含めて確定）
+    undoStack: result === "TRACE" ? [] : pushUndo(before),
+    log: logged(s, { kind: "SEARCH", turn: s.turn, heli, target, result }),
+  });
+}
+
+/**
+ * ロードブロック：部隊の届くビルを rules.roadblockTurns ターンのあいだ犯人が入れなくする
+ * 1行動で、その部隊はこのターン行動済みになる（ドローンも）
+ */
+function applyRoadblock(s: GameState, heli: number, cell: Cell): ActionResult {
+  const bad = checkHeliCanAct(s, heli);
+  if (bad) return reject(bad);
+  if (s.rules.roadblockTurns <= 0) return reject("NO_ROADBLOCKS");
+  if (!roadblockCells(s, heli).some((c) => sameCell(c, cell))) return reject("OUT_OF_ROADBLOCK_RANGE");
+
+  const heliActed = s.heliActed.slice();
+  heliActed[heli] = true;
+
+  return ok({
+    ...s,
+    heliActed,
+    selectedHeli: heli,
+    actionsLeft: s.actionsLeft - 1,
+    undoStack: pushUndo(s),
+    log: logged(s, { kind: "ROADBLOCK", turn: s.turn, heli, cell, until: s.turn + s.rules.roadblockTurns - 1 }),
+  });
+}
+
+/**
+ * 犯人の番に渡す前の判定（動ける犯人がいれば null）
+ * - 残った犯人が全員行き止まり：逃げ切り扱い
+ * - 囲まれているだけで今は誰も動けない：全員その場にとどまって次の警察ターンへ
+ */
+function skipCriminalMove(s: GameState): GameState | null {
+  if (nextCriminal({ ...s, phase: "CRIMINAL_MOVE" }) != null) return null;
+
+  if (activeCriminals(s).every((i) => isStranded(s, i))) {
+    return {
+      ...s,
+      phase: "END",
+      winner: "CRIMINAL",
+      policeAiThinking: false,
+      selectedHeli: null,
+      undoStack: [],
+      log: logged(s, { kind: "END", turn: s.turn, winner: "CRIMINAL" }),
+    };
+  }
+
+  const waited: GameState = { ...s, turn: s.turn + 1, ...policeTurnStart(s), policeAiThinking: false };
+  return s.phase === "POLICE_AI_TURN"
+    ? { ...waited, phase: "POLICE_AI_TURN", selectedHeli: null, lastPoliceSearches: [] }
+    : { ...waited, phase: "POLICE_TURN", selectedHeli: 0 };
+}
+
+function applyEndPoliceTurn(s: GameState): ActionResult {
+  if (s.phase === "POLICE_AI_TURN") {
+    if (s.turn >= s.rules.maxTurn) {
+      return ok({
+        ...s,
+        phase: "END",
+        winner: "CRIMINAL",
+        policeAiThinking: false,
+        selectedHeli: null,
+        log: logged(s, { kind: "END", turn: s.turn, winner: "CRIMINAL" }),
+      });
+    }
+    const skipped = skipCriminalMove(s);
+    if (skipped) return ok(skipped);
+    return ok({ ...s, phase: "CRIMINAL_MOVE", policeAiThinking: false, selectedHeli: null });
+  }
+
+  if (s.phase !== "POLICE_TURN") return reject("WRONG_PHASE");
+  if (!isPoliceViewer(s)) return reject("NOT_YOUR_TURN");
+
+  if (s.turn >= s.rules.maxTurn) {
+    return ok({
+      ...s,
+      phase: "END",
+      winner: "CRIMINAL",
+      undoStack: [],
+      log: logged(s, { kind: "END", turn: s.turn, winner: "CRIMINAL" }),
+    });
+  }
+
+  const skipped = skipCriminalMove(s);
+  if (skipped) return ok(skipped);
+
+  if (s.mode !== "SINGLE") {
+    return ok({
+      ...s,
+      undoStack: [],
+      phase: "CRIMINAL_MOVE",
+      actionsLeft: s.rules.actionsPerTurn,
+      selectedHeli: null,
+      ...passTurn(s, "CRIMINAL", { kind: "CRIMINAL_MOVE", criminals: activeCriminals(s).filter((i) => canCriminalMove(s, i)).length }),
+    });
+  }
+
+  // SINGLE：犯人AI移動（警察プレイ時）
+  const rng = createRng(s.rngState);
+  const wait: 5 | 10 | 15 = pickRandom([5, 10, 15] as const, rng);
+  return ok({
+    ...s,
+    phase: "CRIMINAL_AI_MOVING",
+    criminalMoving: true,
+    moveWaitSec: wait,
+    rngState: rng.state,
+    undoStack: [],
+  });
+}
+
+function applyPoliceAiStep(s: GameState): ActionResult {
+  if (s.phase !== "POLICE_AI_TURN") return reject("WRONG_PHASE");
+
+  const rng = createRng(s.rngState);
+  const action = choosePoliceAiAction(s, rng);
+  if (!action) return reject("NO_ACTIONS_LEFT");
+
+  return step({ ...s, rngState: rng.state }, action);
+}
+
+// 犯人AIは捕まっていない全員を番号順に動かす（動けない犯人はその場にとどまる。誰も動けないときは警察のターンの終わりで片付ける）
+function applyCriminalAiMove(s: GameState): ActionResult {
+  if (s.phase !== "CRIMINAL_AI_MOVING") return reject("WRONG_PHASE");
+  const movers = activeCriminals(s).filter((i) => canCriminalMove(s, i));
+  if (movers.length === 0) return reject("NO_CRIMINAL");
+
+  const rng = createRng(s.rngState);
+  let moved = s;
+  for (const i of movers) {
+    const from = s.criminals[i].pos!;
+    const mv = chooseCriminalAiMove(moved, i, rng);
+    if (mv.stuck) continue;
+    const step = criminalSteps(from, s.rules).find((m) => sameCell(m.to, mv.next));
+    moved = { ...moved, ...criminalMoved(moved, i, mv.next, step?.via ?? null) };
+  }
+
+  return ok({
+    ...moved,
+    rngState: rng.state,
+    turn: s.turn + 1,
+    phase: "POLICE_TURN",
+    ...policeTurnStart(s),
+    selectedHeli: 0,
+    criminalMoving: false,
+  });
+}
+
+// 犯人は番号順に1人ずつ隠れる（全員隠れたら警察の番）
+function applyCriminalChooseStart(s: GameState, c: Cell): ActionResult {
+  if (s.phase !== "CRIMINAL_HIDE") return reject("WRONG_PHASE");
+  if (!isCriminalViewer(s)) return reject("NOT_YOUR_TURN");
+  const i = nextCriminal(s);
+  if (i == null) return reject("ALREADY_HIDDEN");
+  if (!inBoundsCell(c, s.rules)) return reject("OUT_OF_BOUNDS");
+  if (isBlocked(c, s.rules) || closedCells(s).has(keyCell(c))) return reject("BLOCKED_CELL");
+
+  const hidden: GameState = { ...s, ...criminalPlaced(s, i, c) };
+  if (nextCriminal(hidden) != null) return ok(hidden);
+
+  const placed: GameState = { ...hidden, ...policeTurnStart(s) };
+
+  if (s.mode !== "SINGLE") {
+    return ok({
+      ...placed,
+      phase: "POLICE_TURN",
+      selectedHeli: 0,
+      ...passTurn(s, "POLICE", { kind: "FIRST_POLICE_TURN", actions: s.rules.actionsPerTurn }),
+    });
+  }
+
+  // SINGLE（犯人プレイ）：警察AIターンへ
+  return ok({ ...placed, phase: "POLICE_AI_TURN", selectedHeli: null, lastPoliceSearches: [] });
+}
+
+// 犯人は番号順に1人ずつ動く（再訪なしはその犯人自身のルートだけ。全員動いたらターンが進む）
+function applyCriminalMove(s: GameState, c: Cell): ActionResult {
+  if (s.phase !== "CRIMINAL_MOVE") return reject("WRONG_PHASE");
+  if (!isCriminalViewer(s)) return reject("NOT_YOUR_TURN");
+  const i = nextCriminal(s);
+  if (i == null) return reject("NO_CRIMINAL");
+  const { pos, visits } = s.criminals[i];
+
+  const step = criminalSteps(pos!, s.rules).find((m) => sameCell(m.to, c));
+  if (!step) return reject("NOT_ADJACENT");
+  if (visits[keyCell(c)] || (step.via && visits[keyCell(step.via)])) return reject("ALREADY_VISITED");
+  // 地上部隊のいるビル・ロードブロックには入れない（高速道路で通り抜けるのも）
+  const closed = closedCells(s);
+  if (closed.has(keyCell(c)) || (step.via && closed.has(keyCell(step.via)))) return reject("BLOCKED_CELL");
+
+  const stepped: GameState = { ...s, ...criminalMoved(s, i, c, step.via) };
+  if (nextCriminal(stepped) != null) return ok(stepped);
+
+  const moved: GameState = {
+    ...stepped,
+    turn: s.turn + 1,
+    ...policeTurnStart(s),
+  };
+
+  if (s.mode !== "SINGLE") {
+    return ok({
+      ...moved,
+      phase: "POLICE_TURN",
+      selectedHeli: 0,
+      ...passTurn(s, "POLICE", { kind: "POLICE_TURN", actions: s.rules.actionsPerTurn }),
+    });
+  }
+
+  return ok({ ...moved, phase: "POLICE_AI_TURN", selectedHeli: null, lastPoliceSearches: [] });
+}
+
+// セットアップ：交差点にはヘリ・ドローンを、ビルには地上部隊を rules.units の残りから順に置く（置いてある部隊なら外す）
+function applyToggleHeli(s: GameState, n: Node): ActionResult {
+  if (s.phase !== "POLICE_SETUP") return reject("WRONG_PHASE");
+  if (!isPoliceViewer(s)) return reject("NOT_YOUR_TURN");
+  if (!inBoundsNode(n, s.rules)) return reject("OUT_OF_BOUNDS");
+  return togglePlaced(s, n, airUnitAt(s, n), nextUnitKind(s, false));
+}
+
+function applyToggleGround(s: GameState, c: Cell): ActionResult {
+  if (s.phase !== "POLICE_SETUP") return reject("WRONG_PHASE");
+  if (!isPoliceViewer(s)) return reject("NOT_YOUR_TURN");
+  if (!inBoundsCell(c, s.rules)) return reject("OUT_OF_BOUNDS");
+  if (isBlocked(c, s.rules)) return reject("BLOCKED_CELL");
+  return togglePlaced(s, c, groundUnitAt(s, c), nextUnitKind(s, true));
+}
+
+function togglePlaced(s: GameState, at: Node, idx: number, kind: UnitKind | null): ActionResult {
+  if (idx >= 0) {
+    return ok({
+      ...s,
+      helicopters: s.helicopters.filter((_, i) => i !== idx),
+      heliKinds: s.heliKinds.filter((_, i) => i !== idx),
+    });
+  }
+
+  if (!kind) return reject("HELI_LIMIT");
+  return ok({ ...s, helicopters: [...s.helicopters, at], heliKinds: [...s.heliKinds, kind] });
+}
+
+/**
+ * 配置を終えて対戦開始
+ * SINGLE（警察プレイ）は犯人AIが先に隠れているので、地上部隊を置いたビルに犯人がいればその場で確保
+ */
+function applyStartFromSetup(s: GameState): ActionResult {
+  if (s.phase !== "POLICE_SETUP") return reject("WRONG_PHASE");
+  if (!isPoliceViewer(s)) return reject("NOT_YOUR_TURN");
+  if (s.helicopters.length !== s.rules.units.length) return reject("HELI_COUNT");
+
+  const log = logged(s, { kind: "HELI_PLACED", turn: s.turn, helicopters: s.helicopters, kinds: s.heliKinds });
+
+  if (s.mode !== "SINGLE") {
+    return ok({
+      ...s,
+      log,
+      phase: "CRIMINAL_HIDE",
+      selectedHeli: null,
+      ...policeTurnStart(s),
+      ...passTurn(s, "CRIMINAL", { kind: "CRIMINAL_HIDE", criminals: s.criminals.length }),
+    });
+  }
+
+  let started: GameState = { ...s, log, phase: "POLICE_TURN", selectedHeli: 0, ...policeTurnStart(s) };
+  for (const [heli, at] of s.helicopters.entries()) {
+    if (!onCell(s.heliKinds[heli]) || criminalsAt(started, at).length === 0) continue;
+    const res = searchResult(started, { ...started, actionsLeft: started.actionsLeft + 1 }, heli, at);
+    if (res.ok) started = { ...res.state, heliActed: started.heliActed, selectedHeli: 0 };
+  }
+  return ok(started);
+}
+
+/**
+ * ルールエンジン本体：状態と操作から次の状態を返す（不正なら理由を返す）
+ * 入力の state は変更しない。試合が終わったらシリーズに結果を記録する。
+ */
+export function applyAction(s: GameState, action: Action): ActionResult {
+  const res = step(s, action);
+  return res.ok ? ok(recordSeriesResult(res.state)) : res;
+}
+
+function step(s: GameState, action: Action): ActionResult {
+  if (action.type === "ACCEPT_HANDOFF") {
+    if (!s.handoff.show) return reject("NO_HANDOFF");
+    if (s.viewer === "SPECTATOR") return reject("NOT_YOUR_TURN");
+    return ok({ ...s, viewer: s.handoff.to, handoff: { show: false, to: s.handoff.to, message: null } });
+  }
+
+  if (s.handoff.show) return reject("HANDOFF_PENDING");
+
+  switch (action.type) {
+    case "TOGGLE_HELI":
+      return applyToggleHeli(s, action.node);
+    case "TOGGLE_GROUND":
+      return applyToggleGround(s, action.cell);
+    case "CLEAR_HELIS":
+      if (s.phase !== "POLICE_SETUP") return reject("WRONG_PHASE");
+      if (!isPoliceViewer(s)) return reject("NOT_YOUR_TURN");
+      return ok({ ...s, helicopters: [], heliKinds: [], selectedHeli: null });
+    case "START_FROM_SETUP":
+      return applyStartFromSetup(s);
+    case "SELECT_HELI":
+      if (s.phase !== "POLICE_TURN") return reject("WRONG_PHASE");
+      if (!isPoliceViewer(s)) return reject("NOT_YOUR_TURN");
+      if (action.heli < 0 || action.heli >= s.helicopters.length) return reject("NO_SUCH_HELI");
+      return ok({ ...s, selectedHeli: action.heli });
+    case "MOVE_HELI":
+      return applyMoveHeli(s, action.heli, action.to);
+    case "SEARCH":
+      return applySearch(s, action.heli, action.target);
+    case "ROADBLOCK":
+      return applyRoadblock(s, action.heli, action.cell);
+    case "UNDO":
+      return applyUndo(s);
+    case "END_POLICE_TURN":
+      return applyEndPoliceTurn(s);
+    case "CRIMINAL_CHOOSE_START":
+      return applyCriminalChooseStart(s, action.cell);
+    case "CRIMINAL_MOVE":
+      return applyCriminalMove(s, action.to);
+    case "CRIMINAL_AI_MOVE":
+      return applyCriminalAiMove(s);
+    case "POLICE_AI_STEP":
+      return applyPoliceAiStep(s);
+  }
+}
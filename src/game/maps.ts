@@ -0,0 +1,84 @@
+import type { Cell, CityMap, Node, RuleSet, Terrain } from "./types.ts";
+import { allCells, allNodes, allRoads, cellDistances, keyCell, openCells, roadKey, surroundingCells } from "./board.ts";
+import { openMap } from "./rules.ts";
+
+/**
+ * 自作の地図（通れないビル・閉じた道路・特別なビル）の検証と編集
+ * （端末への保存は savedMaps.ts：サーバーでも使うのでここはブラウザに依存しない）
+ */
+
+export const TERRAINS: readonly Terrain[] = ["TUNNEL", "HIGHWAY", "ROOFTOP"];
+
+// 地図として遊べない理由
+export type MapProblem =
+  | "TOO_MANY_BLOCKED" // 通れないビルが半分を超える
+  | "DISCONNECTED" // 通れるビルが2つ以上の島に分かれている
+  | "ENCLOSED_NODE"; // 周囲4ビルが全部通れない交差点がある（そこのヘリが捜索できない）
+
+// 地図だけでルールを組む（検証用：size 以外は使わない）
+function rulesWith(map: CityMap): RuleSet {
+  return { id: "map", size: map.size, maxTurn: 0, actionsPerTurn: 0, units: [], traceTurns: [], revealTurns: [], map, criminalCount: 1, roadblockTurns: 0 };
+}
+
+export function validateMap(map: CityMap): MapProblem | null {
+  const rules = rulesWith(map);
+  const open = openCells(rules);
+  if (open.length * 2 < map.size * map.size) return "TOO_MANY_BLOCKED";
+
+  const dist = cellDistances(open[0], rules);
+  if (open.some((c) => dist[c.r][c.c] === Infinity)) return "DISCONNECTED";
+
+  if (allNodes(rules).some((n) => surroundingCells(n, rules).length === 0)) return "ENCLOSED_NODE";
+  return null;
+}
+
+/** 外から来た地図（保存データ・通信）を整える：範囲外や重複は捨てる。形が違えば null */
+export function normalizeMap(raw: unknown): CityMap | null {
+  if (typeof raw !== "object" || raw === null) return null;
+  const m = raw as Partial<Record<keyof CityMap, unknown>>;
+  if (typeof m.id !== "string" || typeof m.name !== "string" || !Number.isInteger(m.size)) return null;
+  if (!Array.isArray(m.blocked) || !Array.isArray(m.closedRoads)) return null;
+
+  const size = m.size as number;
+  if (size < 2 || size > 12) return null;
+  const base = rulesWith(openMap(size));
+  const cellKeys = new Set(allCells(base).map(keyCell));
+  const roadKeys = new Set(allRoads(base).map(([a, b]) => roadKey(a, b)));
+
+  const blocked = [...new Set(m.blocked.filter((k): k is string => typeof k === "string" && cellKeys.has(k)))].sort();
+  const closedRoads = [...new Set(m.closedRoads.filter((k): k is string => typeof k === "string" && roadKeys.has(k)))].sort();
+  // 地形のない古い地図はそのまま読める。通れないビルには地形を置かない
+  const terrain: Record<string, Terrain> = {};
+  if (typeof m.terrain === "object" && m.terrain !== null) {
+    for (const [k, v] of Object.entries(m.terrain)) {
+      if (cellKeys.has(k) && !blocked.includes(k) && TERRAINS.includes(v as Terrain)) terrain[k] = v as Terrain;
+    }
+  }
+  return { id: m.id, name: m.name.slice(0, 40), size, blocked, closedRoads, terrain };
+}
+
+// ===== エディタでの編集 =====
+
+// 通れないビルにすると地形は消える
+export function toggleBlocked(map: CityMap, c: Cell): CityMap {
+  const k = keyCell(c);
+  const blocked = map.blocked.includes(k) ? map.blocked.filter((x) => x !== k) : [...map.blocked, k].sort();
+  const terrain = { ...map.terrain };
+  delete terrain[k];
+  return { ...map, blocked, terrain };
+}
+
+// 同じ地形ならはがす、違えば置き換える（通れないビルは通れるように戻す）
+export function toggleTerrain(map: CityMap, c: Cell, kind: Terrain): CityMap {
+  const k = keyCell(c);
+  const terrain = { ...map.terrain };
+  if (terrain[k] === kind) delete terrain[k];
+  else terrain[k] = kind;
+  return { ...map, blocked: map.blocked.filter((x) => x !== k), terrain };
+}
+
+export function toggleRoad(map: CityMap, a: Node, b: Node): CityMap {
+  const k = roadKey(a, b);
+  const closedRoads = map.closedRoads.includes(k) ? map.closedRoads.filter((x) => x !== k) : [...map.closedRoads, k].sort();
+  return { ...map, closedRoads };
+}
@@ -0,0 +1,37 @@
+import type { GameState } from "./types.ts";
+
+/**
+ * 対戦中の GameState を localStorage に保存／復元する
+ * （リロードやモバイルのタブ破棄から復帰するため）
+ */
+export const STORAGE_KEY = "citychase:game";
+const VERSION = 16;
+
+type Saved = { v: number; state: GameState };
+
+export function saveGame(state: GameState) {
+  try {
+    const data: Saved = { v: VERSION, state };
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+  } catch {
+    // 容量超過・プライベートモードなどは保存しない
+  }
+}
+
+export function loadGame(): GameState | null {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+
+    const data = JSON.parse(raw) as Partial<Saved>;
+    if (data.v !== VERSION || !data.state) return null;
+
+    const s = data.state;
+    if (typeof s.phase !== "string" || !s.rules || typeof s.rngState !== "number" || !Array.isArray(s.log)) return null;
+    // オンライン対戦はサーバーが正本なので再開しない
+    if (s.mode === "ONLINE") return null;
+    return s;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,36 @@
+import type { GameState, Role, SpectatorView } from "./types.ts";
+import { revealedVisits } from "./criminals.ts";
+
+/**
+ * 警察に見えない情報を落とす：犯人の位置・ルート・痕跡になっていない訪問（痕跡が出たあとの訪問も。END 後は全部見せる）
+ * 捕まったかどうかと、痕跡が誰のものか（犯人ごとの visits）は警察にも見える
+ */
+function hideCriminal(s: GameState): GameState {
+  if (s.phase === "END") return s;
+
+  const criminals = s.criminals.map((cr) => ({ ...cr, pos: null, path: [], visits: revealedVisits(cr.visits, s.revealed) }));
+
+  return {
+    ...s,
+    criminals,
+    log: s.log.filter((e) => e.kind !== "CRIMINAL_START" && e.kind !== "CRIMINAL_MOVE"),
+  };
+}
+
+/**
+ * オンライン対戦：その役割の端末に送ってよい状態だけを作る
+ * - role / viewer はその端末のプレイヤーにする
+ */
+export function viewForRole(s: GameState, role: Role): GameState {
+  const own: GameState = { ...s, role, viewer: role };
+  return role === "POLICE" ? hideCriminal(own) : own;
+}
+
+/**
+ * 観戦者に見せる状態（警察の視点なら犯人の情報を落とす）
+ * 観戦者は操作しないので role はなし・viewer は SPECTATOR
+ */
+export function viewForSpectator(s: GameState, view: SpectatorView): GameState {
+  const own: GameState = { ...s, role: null, viewer: "SPECTATOR" };
+  return view === "POLICE" ? hideCriminal(own) : own;
+}
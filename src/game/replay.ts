@@ -0,0 +1,81 @@
+import type { Cell, Criminal, LogEvent, Node } from "./types.ts";
+import { keyCell } from "./board.ts";
+import { newCriminals } from "./criminals.ts";
+
+/**
+ * リプレイの1コマ（ログを先頭から i 件適用した盤面）
+ */
+export type ReplayFrame = {
+  turn: number;
+  helicopters: Node[];
+  criminals: Criminal[];
+  revealed: Record<string, number>;
+  searched: Record<string, boolean>;
+  event: LogEvent;
+};
+
+export function buildReplayFrames(log: readonly LogEvent[], criminalCount: number): ReplayFrame[] {
+  const frames: ReplayFrame[] = [];
+
+  let helicopters: Node[] = [];
+  let criminals = newCriminals(criminalCount);
+  let revealed: Record<string, number> = {};
+  let searched: Record<string, boolean> = {};
+
+  for (const e of log) {
+    switch (e.kind) {
+      case "HELI_PLACED":
+        helicopters = e.helicopters.slice();
+        break;
+      case "CRIMINAL_START":
+        criminals = criminals.slice();
+        criminals[e.criminal] = { ...criminals[e.criminal], pos: e.cell, path: [e.cell], visits: { [keyCell(e.cell)]: [1] } };
+        break;
+      case "HELI_MOVE":
+        helicopters = helicopters.slice();
+        helicopters[e.heli] = e.to;
+        break;
+      case "SEARCH":
+        searched = { ...searched, [keyCell(e.target)]: true };
+        if (e.result === "TRACE") revealed = { ...revealed, [keyCell(e.target)]: e.turn };
+        if (e.caught) criminals = criminals.map((cr, i) => (e.caught!.includes(i) ? { ...cr, caught: true } : cr));
+        break;
+      case "CRIMINAL_MOVE": {
+        // 高速道路で通り抜けたビルも同じターンに通ったことになる
+        const passed = e.via ? [e.via, e.to] : [e.to];
+        const cr = criminals[e.criminal];
+        const visits = { ...cr.visits };
+        for (const c of passed) visits[keyCell(c)] = [...(visits[keyCell(c)] ?? []), e.turn];
+        criminals = criminals.slice();
+        criminals[e.criminal] = { ...cr, pos: e.to, path: [...cr.path, ...passed], visits };
+        break;
+      }
+      case "ANNOUNCE":
+      case "ROADBLOCK":
+      case "END":
+        break;
+    }
+
+    frames.push({ turn: e.turn, helicopters, criminals, revealed, searched, event: e });
+  }
+
+  return frames;
+}
+
+export type Announcement = { turn: number; criminal: number; cell: Cell };
+
+/** 位置公開ルールで公開された犯人の位置（古い順） */
+export function announcementsOf(log: readonly LogEvent[]): Announcement[] {
+  const list: Announcement[] = [];
+  for (const e of log) if (e.kind === "ANNOUNCE") list.push({ turn: e.turn, criminal: e.criminal, cell: e.cell });
+  return list;
+}
+
+/** そのターンの最後のコマ（スライダー用） */
+export function lastFrameOfTurn(frames: readonly ReplayFrame[], turn: number): number {
+  let idx = 0;
+  for (let i = 0; i < frames.length; i++) {
+    if (frames[i].turn <= turn) idx = i;
+  }
+  return idx;
+}
@@ -0,0 +1,42 @@
+/**
+ * シード付き乱数（mulberry32）
+ * GameState には現在の内部状態（rngState）だけを保存し、使うたびに createRng で復元する。
+ */
+export type Rng = { state: number; next: () => number };
+
+export function createRng(state: number): Rng {
+  const rng: Rng = {
+    state: state >>> 0,
+    next() {
+      rng.state = (rng.state + 0x6d2b79f5) >>> 0;
+      let t = rng.state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+  };
+  return rng;
+}
+
+/** 新しい対戦用のシード（ここだけ Math.random を使う） */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+/**
+ * 入力されたシード文字列を数値にする（数字以外は文字列ハッシュ）
+ * 空なら null
+ */
+export function parseSeed(text: string): number | null {
+  const t = text.trim();
+  if (!t) return null;
+  if (/^\d+$/.test(t)) return Number(t) >>> 0;
+
+  // FNV-1a
+  let h = 0x811c9dc5;
+  for (let i = 0; i < t.length; i++) {
+    h ^= t.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
@@ -0,0 +1,22 @@
+import type { Cell, LogEvent } from "./types.ts";
+
+/**
+ * ロードブロック：警察が1行動でビルを rules.roadblockTurns ターンのあいだ封鎖する（犯人は入れない。高速道路で通り抜けるのも）
+ * 置いたターンから until ターンの犯人の移動まで効く。ログ（ROADBLOCK）から求めるので、取り消すとログごと戻る
+ * 犯人の最後の逃げ道はふさげない（置けるビルは units.ts の roadblockCells）
+ */
+
+// タイトル画面で選べる長さ（0 はロードブロックなし）
+export const ROADBLOCK_TURN_CHOICES: readonly number[] = [0, 1, 2, 3];
+
+export type Roadblock = { cell: Cell; until: number };
+
+/** そのターンに効いているロードブロック（置いた順） */
+export function activeRoadblocks(log: readonly LogEvent[], turn: number): Roadblock[] {
+  return log.flatMap((e) => (e.kind === "ROADBLOCK" && e.until >= turn ? [{ cell: e.cell, until: e.until }] : []));
+}
+
+/** 盤面のカウントダウン：あと何回の犯人の移動を止めるか */
+export function roadblockTurnsLeft(rb: Roadblock, turn: number): number {
+  return rb.until - turn + 1;
+}
@@ -0,0 +1,71 @@
+import type { CityMap, RuleSet } from "./types.ts";
+
+/** 何も閉じていない標準の街 */
+export function openMap(size: number): CityMap {
+  return { id: "open", name: "", size, blocked: [], closedRoads: [], terrain: {} };
+}
+
+export const STANDARD_RULES: RuleSet = {
+  id: "standard",
+  size: 5,
+  maxTurn: 11,
+  actionsPerTurn: 3,
+  units: ["HELI", "HELI", "HELI"],
+  traceTurns: [1, 6],
+  revealTurns: [],
+  map: openMap(5),
+  criminalCount: 1,
+  roadblockTurns: 0,
+};
+
+export const QUICK_RULES: RuleSet = {
+  id: "quick",
+  size: 4,
+  maxTurn: 7,
+  actionsPerTurn: 2,
+  units: ["HELI", "HELI"],
+  traceTurns: [1, 4],
+  revealTurns: [],
+  map: openMap(4),
+  criminalCount: 1,
+  roadblockTurns: 0,
+};
+
+export const LONG_RULES: RuleSet = {
+  id: "long",
+  size: 7,
+  maxTurn: 16,
+  actionsPerTurn: 4,
+  units: ["HELI", "HELI", "HELI", "HELI"],
+  traceTurns: [1, 6, 11],
+  revealTurns: [],
+  map: openMap(7),
+  criminalCount: 1,
+  roadblockTurns: 0,
+};
+
+export const RULE_PRESETS: readonly RuleSet[] = [QUICK_RULES, STANDARD_RULES, LONG_RULES];
+
+// ===== 位置公開ルール（スコットランドヤード風：決まったターンに犯人の現在地を公開） =====
+
+/** おすすめの公開ターン：3ターンごと（最終ターンは除く） */
+export function defaultRevealTurns(rules: RuleSet): number[] {
+  const turns: number[] = [];
+  for (let t = 3; t < rules.maxTurn; t += 3) turns.push(t);
+  return turns;
+}
+
+/** 公開ターンの整理：1〜maxTurn の整数だけ・重複なしの昇順 */
+export function normalizeRevealTurns(turns: readonly number[], rules: RuleSet): number[] {
+  const valid = turns.filter((t) => Number.isInteger(t) && t >= 1 && t <= rules.maxTurn);
+  return [...new Set(valid)].sort((a, b) => a - b);
+}
+
+/** 「3, 6, 9」のような入力を公開ターンにする */
+export function parseRevealTurns(text: string, rules: RuleSet): number[] {
+  const turns = text
+    .split(/[\s,、，]+/)
+    .filter((x) => /^\d+$/.test(x))
+    .map((x) => Number(x));
+  return normalizeRevealTurns(turns, rules);
+}
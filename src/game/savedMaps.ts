@@ -0,0 +1,31 @@
+import type { CityMap } from "./types.ts";
+import { normalizeMap } from "./maps.ts";
+
+/**
+ * 自作の地図を名前付きで localStorage に保存する
+ */
+export function newMapId() {
+  return `map-${Date.now().toString(36)}`;
+}
+
+const MAPS_KEY = "citychase:maps";
+
+export function loadSavedMaps(): CityMap[] {
+  try {
+    const raw = window.localStorage.getItem(MAPS_KEY);
+    if (!raw) return [];
+    const data = JSON.parse(raw) as unknown;
+    if (!Array.isArray(data)) return [];
+    return data.map(normalizeMap).filter((m): m is CityMap => m != null && m.id !== "open");
+  } catch {
+    return [];
+  }
+}
+
+export function saveMaps(maps: readonly CityMap[]) {
+  try {
+    window.localStorage.setItem(MAPS_KEY, JSON.stringify(maps));
+  } catch {
+    // 保存できなくてもこのセッションでは使える
+  }
+}
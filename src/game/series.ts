@@ -0,0 +1,72 @@
+import type { GameState, Series, SeriesGame } from "./types.ts";
+
+// シリーズは偶数試合（両方が同じ回数だけ警察をする）。1 はシリーズなし
+export const SERIES_LENGTHS = [1, 2, 4, 6];
+
+/**
+ * シリーズを始める（s はその第1試合）
+ * - SINGLE：プレイヤー0が人間・1がAI、人間の役割から交代していく
+ * - PASS_PLAY：プレイヤー1が先に警察
+ */
+export function createSeries(length: number, s: GameState): Series {
+  const single = s.mode === "SINGLE";
+  return {
+    length,
+    players: single ? ["YOU", "AI"] : ["PLAYER1", "PLAYER2"],
+    firstPolice: single && s.role === "CRIMINAL" ? 1 : 0,
+    index: 0,
+    games: [],
+  };
+}
+
+/** 第 index 試合（0始まり）で警察をするプレイヤー */
+export function policePlayerOf(series: Series, index: number): 0 | 1 {
+  return ((series.firstPolice + index) % 2) as 0 | 1;
+}
+
+/**
+ * END になった試合の結果をシリーズに記録する（記録済みなら何もしない）
+ */
+export function recordSeriesResult(s: GameState): GameState {
+  const { series } = s;
+  if (!series || s.phase !== "END" || !s.winner) return s;
+  if (series.games.length > series.index) return s;
+
+  const game: SeriesGame = {
+    policePlayer: policePlayerOf(series, series.index),
+    winner: s.winner,
+    captureTurn: s.winner === "POLICE" ? s.turn : s.rules.maxTurn + 1,
+  };
+  return { ...s, series: { ...series, games: [...series.games, game] } };
+}
+
+export type SeriesStanding = {
+  wins: number;
+  captureTurns: number; // 警察のときの確保ターン合計（少ないほど良い）
+};
+
+export function seriesStandings(series: Series): [SeriesStanding, SeriesStanding] {
+  const table: [SeriesStanding, SeriesStanding] = [
+    { wins: 0, captureTurns: 0 },
+    { wins: 0, captureTurns: 0 },
+  ];
+  for (const g of series.games) {
+    const winner = g.winner === "POLICE" ? g.policePlayer : 1 - g.policePlayer;
+    table[winner].wins++;
+    table[g.policePlayer].captureTurns += g.captureTurn;
+  }
+  return table;
+}
+
+/**
+ * シリーズの勝者（全試合が終わるまでは null）
+ * 勝ち数 → 同数なら確保ターン合計が少ない方 → それも同じなら引き分け
+ */
+export function seriesWinner(series: Series): 0 | 1 | "DRAW" | null {
+  if (series.games.length < series.length) return null;
+  const [a, b] = seriesStandings(series);
+
+  if (a.wins !== b.wins) return a.wins > b.wins ? 0 : 1;
+  if (a.captureTurns !== b.captureTurns) return a.captureTurns < b.captureTurns ? 0 : 1;
+  return "DRAW";
+}
@@ -0,0 +1,117 @@
+import { applyAction, createInitialState, newGame, setupOf, type Action } from "./engine.ts";
+import type { GameState, RuleSet } from "./types.ts";
+import type { CriminalStrategy, PoliceStrategy } from "./strategy.ts";
+import { viewForRole } from "./redact.ts";
+import { nextCriminal } from "./criminals.ts";
+import { onCell } from "./units.ts";
+import { createRng, type Rng } from "./rng.ts";
+import { captureHistogram, recordOf, type GameRecord } from "./stats.ts";
+
+/**
+ * AI同士の対戦を画面なしで回す（重みの調整・強さの比較用）
+ * 両陣営を人間と同じ操作で動かすので、PASS_PLAY の対戦としてエンジンに通す
+ */
+
+// 不正な操作を返し続ける戦略で止まらないように
+const MAX_STEPS = 10_000;
+
+function apply(s: GameState, action: Action): GameState | null {
+  const res = applyAction(s, action);
+  return res.ok ? res.state : null;
+}
+
+function mustApply(s: GameState, action: Action, who: string): GameState {
+  const res = applyAction(s, action);
+  if (!res.ok) throw new Error(`${who}: ${action.type} が ${res.reason} で拒否されました`);
+  return res.state;
+}
+
+// 警察の手番：行動を使い切るか打つ手がなくなったらターン終了（不正な一手も終了扱い＝画面の警察AIと同じ）
+function policeTurn(s: GameState, police: PoliceStrategy, rng: Rng): GameState {
+  while (s.phase === "POLICE_TURN" && s.actionsLeft > 0) {
+    const action = police.nextAction(viewForRole(s, "POLICE"), rng);
+    const next = action ? apply(s, action) : null;
+    if (!next) break;
+    s = next;
+  }
+  return s.phase === "POLICE_TURN" ? mustApply(s, { type: "END_POLICE_TURN" }, police.id) : s;
+}
+
+/**
+ * 1試合を最後まで進めて END の状態を返す
+ */
+export function playHeadless(police: PoliceStrategy, criminal: CriminalStrategy, rules: RuleSet, seed: number): GameState {
+  const rng = createRng(seed);
+  let s = newGame({ ...setupOf(createInitialState({ rules })), mode: "PASS_PLAY" }, seed);
+
+  for (let i = 0; i < MAX_STEPS && s.phase !== "END"; i++) {
+    if (s.handoff.show) {
+      s = mustApply(s, { type: "ACCEPT_HANDOFF" }, "simulate");
+    } else if (s.phase === "POLICE_SETUP") {
+      // 地上部隊はビルに置く（並びは rules.units の順なので種類は置いた順に決まる）
+      const placed = police.placeHelis(viewForRole(s, "POLICE"), rng);
+      for (const [i, at] of placed.entries()) {
+        const action: Action = onCell(s.rules.units[i]) ? { type: "TOGGLE_GROUND", cell: at } : { type: "TOGGLE_HELI", node: at };
+        s = mustApply(s, action, police.id);
+      }
+      s = mustApply(s, { type: "START_FROM_SETUP" }, police.id);
+    } else if (s.phase === "CRIMINAL_HIDE") {
+      const cell = criminal.chooseStart(viewForRole(s, "CRIMINAL"), rng);
+      s = mustApply(s, { type: "CRIMINAL_CHOOSE_START", cell }, criminal.id);
+    } else if (s.phase === "POLICE_TURN") {
+      s = policeTurn(s, police, rng);
+    } else if (s.phase === "CRIMINAL_MOVE" && nextCriminal(s) != null) {
+      // 複数犯人は番号順に1人ずつ
+      const mv = criminal.nextMove(viewForRole(s, "CRIMINAL"), nextCriminal(s)!, rng);
+      // 行き止まり・囲まれた犯人はエンジンが先に片付けるので、ここで動けないのは戦略の不具合
+      if (mv.stuck) throw new Error(`simulate: ${criminal.id} が動ける犯人${nextCriminal(s)}を動かせませんでした`);
+      s = mustApply(s, { type: "CRIMINAL_MOVE", to: mv.next }, criminal.id);
+    } else {
+      throw new Error(`simulate: ${s.phase} は想定外のフェーズです`);
+    }
+  }
+
+  if (s.phase !== "END") throw new Error(`simulate: ${MAX_STEPS} 手で終わりませんでした`);
+  return s;
+}
+
+export type MatchupSummary = {
+  police: string;
+  criminal: string;
+  games: number;
+  policeWins: number;
+  meanCaptureTurn: number | null; // 確保できた試合の平均（1度も確保できなければ null）
+  captures: number[]; // captures[t - 1]：Turn t で確保した数
+  escaped: number;
+};
+
+/**
+ * 同じ組み合わせで games 試合（シードは firstSeed から連番）
+ */
+export function simulateMatchup(
+  police: PoliceStrategy,
+  criminal: CriminalStrategy,
+  rules: RuleSet,
+  games: number,
+  firstSeed = 1
+): MatchupSummary {
+  const records: GameRecord[] = [];
+  for (let i = 0; i < games; i++) {
+    const record = recordOf(playHeadless(police, criminal, rules, (firstSeed + i) >>> 0), 0);
+    if (record) records.push(record);
+  }
+
+  const { counts, escaped } = captureHistogram(records, rules.maxTurn);
+  const policeWins = counts.reduce((a, b) => a + b, 0);
+  const turnSum = counts.reduce((sum, n, i) => sum + n * (i + 1), 0);
+
+  return {
+    police: police.id,
+    criminal: criminal.id,
+    games: records.length,
+    policeWins,
+    meanCaptureTurn: policeWins > 0 ? turnSum / policeWins : null,
+    captures: counts,
+    escaped,
+  };
+}
@@ -0,0 +1,103 @@
+import type { AiLevel, Cell, GameState, Mode, Role } from "./types.ts";
+
+/**
+ * 終わった対戦1つぶんの記録（成績画面用に IndexedDB に残す）
+ */
+export type GameRecord = {
+  id?: number; // IndexedDB の自動採番
+  finishedAt: number; // Date.now()
+  mode: Mode;
+  role: Role | null; // このプレイヤーの役割（PASS_PLAY は null）
+  aiLevel: AiLevel | null; // SINGLE の相手AIの強さ
+  rulesId: string;
+  size: number;
+  maxTurn: number;
+  seed: number;
+  winner: Role;
+  endTurn: number; // 終わったターン（確保ならそのターン）
+  start: Cell | null;
+  path: Cell[]; // 犯人の全ルート（start を含む。複数犯人モードでは1人目）
+  capture: Cell | null; // 確保したマス（逃げ切りは null。複数犯人モードでは最後の1人）
+  searches: number; // 警察が使った捜索の回数
+};
+
+/** END の状態から記録を作る（END 以外は null） */
+export function recordOf(s: GameState, finishedAt = Date.now()): GameRecord | null {
+  if (s.phase !== "END" || !s.winner) return null;
+
+  const start = s.log.find((e) => e.kind === "CRIMINAL_START");
+  const caught = s.log.filter((e) => e.kind === "SEARCH" && e.result === "CAUGHT").pop();
+  const opponentAi = s.role === "POLICE" ? s.criminalAiLevel : s.policeAiLevel;
+
+  return {
+    finishedAt,
+    mode: s.mode,
+    role: s.mode === "PASS_PLAY" ? null : s.role,
+    aiLevel: s.mode === "SINGLE" ? opponentAi : null,
+    rulesId: s.rules.id,
+    size: s.rules.size,
+    maxTurn: s.rules.maxTurn,
+    seed: s.seed,
+    winner: s.winner,
+    endTurn: s.turn,
+    start: start?.kind === "CRIMINAL_START" ? start.cell : s.criminals[0].path[0] ?? null,
+    path: s.criminals[0].path,
+    capture: caught?.kind === "SEARCH" ? caught.target : null,
+    searches: s.log.filter((e) => e.kind === "SEARCH").length,
+  };
+}
+
+// ===== 集計 =====
+
+export type WinRateRow = {
+  mode: Mode;
+  role: Role | null; // null は PASS_PLAY（警察側が勝った割合）
+  games: number;
+  wins: number;
+};
+
+/**
+ * モード×役割ごとの勝率
+ * PASS_PLAY は2人とも人間なので「警察側が勝った数」を数える
+ */
+export function winRates(records: GameRecord[]): WinRateRow[] {
+  const rows: WinRateRow[] = [];
+  for (const r of records) {
+    const role = r.mode === "PASS_PLAY" ? null : r.role;
+    let row = rows.find((x) => x.mode === r.mode && x.role === role);
+    if (!row) {
+      row = { mode: r.mode, role, games: 0, wins: 0 };
+      rows.push(row);
+    }
+    row.games++;
+    if (r.winner === (role ?? "POLICE")) row.wins++;
+  }
+
+  const modeOrder: Mode[] = ["SINGLE", "PASS_PLAY", "ONLINE"];
+  const roleOrder = (role: Role | null) => (role === "CRIMINAL" ? 1 : 0);
+  return rows.sort((a, b) => modeOrder.indexOf(a.mode) - modeOrder.indexOf(b.mode) || roleOrder(a.role) - roleOrder(b.role));
+}
+
+/**
+ * 確保ターンのヒストグラム：counts[t - 1] が Turn t で確保した数、escaped が逃げ切りの数
+ * （ルールごとに maxTurn が違うので、同じルールの記録だけを渡す）
+ */
+export function captureHistogram(records: GameRecord[], maxTurn: number) {
+  const counts = Array.from({ length: maxTurn }, () => 0);
+  let escaped = 0;
+  for (const r of records) {
+    if (r.winner === "POLICE" && r.endTurn >= 1 && r.endTurn <= maxTurn) counts[r.endTurn - 1]++;
+    else if (r.winner === "CRIMINAL") escaped++;
+  }
+  return { counts, escaped };
+}
+
+/** マスごとの回数（犯人の開始マス・確保マスのヒートマップ用） */
+export function cellHeat(records: GameRecord[], size: number, pick: (r: GameRecord) => Cell | null): number[][] {
+  const grid = Array.from({ length: size }, () => Array.from({ length: size }, () => 0));
+  for (const r of records) {
+    const c = pick(r);
+    if (c && c.r >= 0 && c.r < size && c.c >= 0 && c.c < size) grid[c.r][c.c]++;
+  }
+  return grid;
+}
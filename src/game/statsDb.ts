@@ -0,0 +1,48 @@
+import type { GameRecord } from "./stats.ts";
+
+/**
+ * 対戦記録を IndexedDB に保存する（localStorage は対戦中の状態だけ）
+ * IndexedDB が使えない環境では何も残さない
+ */
+const DB_NAME = "citychase";
+const DB_VERSION = 1;
+const STORE = "games";
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = window.indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      req.result.createObjectStore(STORE, { keyPath: "id", autoIncrement: true });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+// 1回の読み書きをトランザクションで包み、終わったら閉じる
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(STORE, mode);
+      const req = run(tx.objectStore(STORE));
+      tx.oncomplete = () => resolve(req.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export async function addGameRecord(record: GameRecord) {
+  await withStore("readwrite", (store) => store.add(record));
+}
+
+export async function loadGameRecords(): Promise<GameRecord[]> {
+  return withStore("readonly", (store) => store.getAll() as IDBRequest<GameRecord[]>);
+}
+
+export async function clearGameRecords() {
+  await withStore("readwrite", (store) => store.clear());
+}
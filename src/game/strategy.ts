@@ -0,0 +1,29 @@
+import type { Action } from "./engine.ts";
+import type { Cell, GameState, Node } from "./types.ts";
+import type { Rng } from "./rng.ts";
+
+/**
+ * 警察側の戦略（AI）：React のタイマーとは関係なく、状態を見て次の一手を返すだけ
+ * 渡される状態は警察に見えている分だけとは限らない（SINGLE では全部）ので、
+ * 犯人の位置・ルートや、痕跡になっていない訪問は見ないこと
+ */
+export type PoliceStrategy = {
+  id: string;
+  // セットアップ：部隊の初期配置（rules.units の順。地上部隊はビルの位置）
+  placeHelis: (s: GameState, rng: Rng) => Node[];
+  // 警察ターンの1手（MOVE_HELI / SEARCH）。打つ手がなければ null でターン終了
+  nextAction: (s: GameState, rng: Rng) => Action | null;
+};
+
+export type CriminalMove = { next: Cell; stuck: boolean };
+
+/**
+ * 犯人側の戦略（AI）
+ */
+export type CriminalStrategy = {
+  id: string;
+  // ヘリ配置を見たあとの初期位置（複数犯人なら番号順に1人ずつ。先に隠れた犯人の位置も見える）
+  chooseStart: (s: GameState, rng: Rng) => Cell;
+  // 犯人 criminal のこのターンの移動先（今いるビルから隣へ。動けなければ stuck）
+  nextMove: (s: GameState, criminal: number, rng: Rng) => CriminalMove;
+};
@@ -0,0 +1,176 @@
+export type Role = "POLICE" | "CRIMINAL";
+export type Mode = "SINGLE" | "PASS_PLAY" | "ONLINE";
+
+export type Phase =
+  | "ROLE_SELECT"
+  | "POLICE_SETUP"
+  | "POLICE_TURN"
+  | "CRIMINAL_AI_MOVING"
+  | "CRIMINAL_HIDE"
+  | "POLICE_AI_TURN"
+  | "CRIMINAL_MOVE"
+  | "END";
+
+export type Viewer = "POLICE" | "CRIMINAL" | "SPECTATOR";
+
+// 観戦者の見え方：警察が知っていること／犯人が知っていること／全部（犯人の現在地とルートも）
+export type SpectatorView = "POLICE" | "CRIMINAL" | "OMNISCIENT";
+
+export type AiLevel = "EASY" | "NORMAL" | "HARD";
+
+export type Cell = { r: number; c: number }; // 0..size-1
+export type Node = { r: number; c: number }; // 0..size-2（交差点）
+
+/**
+ * 対戦ルール（ゲーム開始時に選ぶ）
+ */
+export type RuleSet = {
+  id: string;
+  size: number; // 盤面のビル数（size x size）
+  maxTurn: number;
+  actionsPerTurn: number;
+  units: UnitKind[]; // 警察の部隊（種類ごとの数。ヘリ番号は置いた順）
+  traceTurns: number[]; // 痕跡を色付きで強調するターン
+  revealTurns: number[]; // 犯人の現在地を自動で公開するターン（空なら公開なし）
+  map: CityMap;
+  criminalCount: number; // 犯人の人数（1〜3。全員捕まえたら警察の勝ち）
+  roadblockTurns: number; // ロードブロックで封鎖できるターン数（0 ならロードブロックなし）
+};
+
+/**
+ * 街の地図：通れないビル（公園・川など）と、ヘリが通れない道路
+ * 何も閉じていなければ今まで通りの街（id: "open"）
+ */
+export type CityMap = {
+  id: string;
+  name: string;
+  size: number; // ルールの size と同じ
+  blocked: string[]; // 通れないビル（keyCell）
+  closedRoads: string[]; // ヘリが通れない道路（隣り合う交差点の roadKey）
+  terrain: Record<string, Terrain>; // 特別なビル（keyCell → 地形。書いていないビルは普通のビル）
+};
+
+/**
+ * 特別なビル
+ * - TUNNEL：通っても痕跡が残らない（捜索しても犯人がいなければハズレ）
+ * - HIGHWAY：ここからは犯人がまっすぐ2マス先まで1ターンで行ける（途中のビルも通ったことになる）
+ * - ROOFTOP：見晴らしがいいので、周囲4交差点の隣の交差点からも捜索できる
+ */
+export type Terrain = "TUNNEL" | "HIGHWAY" | "ROOFTOP";
+
+/**
+ * 警察の部隊の種類
+ * - HELI：交差点にいる。1ターンに隣の交差点へ移動するか、周りのビルを1つ捜索する
+ * - DRONE：交差点にいる。1ターンに周りのビルを2つまで捜索できる（1つ1行動）が、移動したターンは捜索できない
+ * - GROUND：ビルにいる。隣のビルへ移動すると入ったビルを捜索したことになる。いるビルには犯人が入れない
+ */
+export type UnitKind = "HELI" | "DRONE" | "GROUND";
+
+/**
+ * 犯人1人ぶん（複数犯人モードでは番号ごとに色分けする）
+ * 警察の端末では pos / path と、痕跡になっていない visits は消してある
+ */
+export type Criminal = {
+  pos: Cell | null; // 隠れる前は null
+  path: Cell[];
+  visits: Record<string, number[]>; // この犯人が通ったビル（keyCell → ターン。再訪なし）
+  caught: boolean; // 捕まった犯人は盤面から消えて、もう動かない
+};
+
+export type SearchMark = { turn: number; target: Cell; heliIndex: number };
+
+// 警察ターン内の「元に戻す」用スナップショット
+export type UndoEntry = {
+  helicopters: Node[];
+  heliActed: boolean[];
+  actionsLeft: number;
+  searched: Record<string, boolean>;
+  selectedHeli: number | null;
+  logLength: number;
+};
+
+/**
+ * 対戦ログ（リプレイ用）：エンジンが状態遷移ごとに追記する
+ */
+export type LogEvent =
+  | { kind: "HELI_PLACED"; turn: number; helicopters: Node[]; kinds: UnitKind[] }
+  | { kind: "CRIMINAL_START"; turn: number; criminal: number; cell: Cell }
+  | { kind: "HELI_MOVE"; turn: number; heli: number; from: Node; to: Node }
+  | { kind: "SEARCH"; turn: number; heli: number; target: Cell; result: "MISS" | "TRACE" | "CAUGHT"; caught?: number[] } // caught：捕まえた犯人
+  | { kind: "CRIMINAL_MOVE"; turn: number; criminal: number; to: Cell; via?: Cell } // via：高速道路で通り抜けたビル
+  | { kind: "ANNOUNCE"; turn: number; criminal: number; cell: Cell } // 公開ターン：犯人の現在地（警察にも見える）
+  | { kind: "ROADBLOCK"; turn: number; heli: number; cell: Cell; until: number } // until：このターンの犯人の移動まで封鎖
+  | { kind: "END"; turn: number; winner: Role };
+
+/**
+ * シリーズ（N試合・1試合ごとに役割交代）
+ * players[0] は SINGLE なら人間、PASS_PLAY なら最初に警察をする人
+ */
+export type SeriesGame = {
+  policePlayer: 0 | 1; // この試合で警察をしたプレイヤー
+  winner: Role;
+  captureTurn: number; // 確保したターン（逃げ切りは maxTurn + 1）
+};
+
+// シリーズのプレイヤー（表示名は画面側のメッセージカタログで）
+export type SeriesPlayer = "YOU" | "AI" | "PLAYER1" | "PLAYER2";
+
+export type Series = {
+  length: number; // 全試合数（全部終えてから決着）
+  players: [SeriesPlayer, SeriesPlayer];
+  firstPolice: 0 | 1; // 第1試合で警察をするプレイヤー
+  index: number; // いまの試合（0始まり）
+  games: SeriesGame[]; // 終わった試合の結果
+};
+
+/**
+ * 端末の受け渡し画面の案内（文言は画面側のメッセージカタログで言語ごとに作る）
+ */
+export type HandoffMessage =
+  | { kind: "CRIMINAL_HIDE"; criminals: number } // 犯人がヘリ配置を見て初期位置を選ぶ（criminals：隠れる人数）
+  | { kind: "FIRST_POLICE_TURN"; actions: number }
+  | { kind: "POLICE_TURN"; actions: number }
+  | { kind: "CRIMINAL_MOVE"; criminals: number } // criminals：動かす人数（捕まった犯人・動けない犯人は除く）
+  | { kind: "SERIES_NEXT"; player: SeriesPlayer; game: number }; // game は1始まり
+
+export type GameState = {
+  rules: RuleSet;
+  seed: number; // この対戦のシード（END で表示・再現用）
+  rngState: number; // シード付き乱数の現在の状態
+  mode: Mode;
+  role: Role | null; // SINGLE・ONLINE時：プレイヤーの役割 / PASS時：null
+  policeAiLevel: AiLevel; // SINGLE犯人時の警察AIの強さ
+  criminalAiLevel: AiLevel; // SINGLE警察時の犯人AIの強さ
+  viewer: Viewer; // PASS時：いま端末を見ている人 / ONLINE：サーバーでは手番の人、端末では自分 / 観戦：SPECTATOR
+  phase: Phase;
+
+  turn: number;
+
+  helicopters: Node[]; // 部隊の位置（地上部隊はビルの位置）
+  heliKinds: UnitKind[]; // 部隊の種類（helicopters と同じ並び）
+  selectedHeli: number | null;
+  actionsLeft: number;
+  heliActed: boolean[];
+  undoStack: UndoEntry[]; // 現在の警察ターン内だけ有効
+
+  criminals: Criminal[]; // 番号順に隠れて、毎ターン番号順に動く
+  revealed: Record<string, number>; // 痕跡が出たビル → 最後に痕跡が出たターン（警察に見えるのはそのターンまでの訪問）
+  searched: Record<string, boolean>;
+
+  // ✅ 「直前の警察AIの捜索」3つを残す
+  lastPoliceSearches: SearchMark[];
+
+  policeAiThinking: boolean;
+
+  criminalMoving: boolean;
+  moveWaitSec: 5 | 10 | 15;
+
+  winner: "POLICE" | "CRIMINAL" | null;
+
+  log: LogEvent[];
+  statsRecorded: boolean; // END の記録を成績（IndexedDB）に保存済みか
+
+  series: Series | null; // シリーズ中でなければ null
+
+  handoff: { show: boolean; to: Role; message: HandoffMessage | null };
+};
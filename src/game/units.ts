@@ -0,0 +1,136 @@
+import type { Cell, GameState, Node, UnitKind } from "./types.ts";
+import { criminalSteps, isBlocked, keyCell, keyNode, neighborsCell, neighborsNode, searchableCells } from "./board.ts";
+import { activeRoadblocks } from "./roadblocks.ts";
+
+/**
+ * 警察の部隊（ヘリ・ドローン・地上部隊）のまとめ
+ * 位置は helicopters、種類は heliKinds（同じ並び）。ヘリとドローンは交差点、地上部隊はビルにいる
+ */
+
+export const UNIT_KINDS: readonly UnitKind[] = ["HELI", "DRONE", "GROUND"];
+
+// 部隊の数の上限（ヘリの色・数字キーの数）
+export const MAX_UNITS = 4;
+
+// ドローンが1ターンに捜索できる回数
+export const DRONE_SEARCHES = 2;
+
+/** 地上部隊はビル（それ以外は交差点）にいる */
+export function onCell(kind: UnitKind) {
+  return kind === "GROUND";
+}
+
+/**
+ * まだ置いていない部隊の種類（rules.units から置いた分を引く。並びは rules.units の順）
+ */
+export function unplacedUnits(units: readonly UnitKind[], placed: readonly UnitKind[]): UnitKind[] {
+  const left = placed.slice();
+  return units.filter((kind) => {
+    const i = left.indexOf(kind);
+    if (i < 0) return true;
+    left.splice(i, 1);
+    return false;
+  });
+}
+
+/** セットアップで次に置く部隊（交差点なら HELI → DRONE の順、ビルなら GROUND） */
+export function nextUnitKind(s: Pick<GameState, "rules" | "heliKinds">, cell: boolean): UnitKind | null {
+  return unplacedUnits(s.rules.units, s.heliKinds).find((kind) => onCell(kind) === cell) ?? null;
+}
+
+type UnitsInput = Pick<GameState, "helicopters" | "heliKinds">;
+
+/** その交差点にいるヘリ・ドローン（いなければ -1） */
+export function airUnitAt(s: UnitsInput, n: Node): number {
+  return s.helicopters.findIndex((h, i) => !onCell(s.heliKinds[i]) && keyNode(h) === keyNode(n));
+}
+
+/** そのビルにいる地上部隊（いなければ -1） */
+export function groundUnitAt(s: UnitsInput, c: Cell): number {
+  return s.helicopters.findIndex((h, i) => onCell(s.heliKinds[i]) && keyCell(h) === keyCell(c));
+}
+
+/** 地上部隊のいるビル（犯人が入れない） */
+export function groundCells(s: UnitsInput): Set<string> {
+  return new Set(s.helicopters.flatMap((h, i) => (onCell(s.heliKinds[i]) ? [keyCell(h)] : [])));
+}
+
+/** 犯人が入れないビル（地上部隊のいるビルと、効いているロードブロック） */
+export function closedCells(s: UnitsInput & Pick<GameState, "log" | "turn">): Set<string> {
+  const closed = groundCells(s);
+  for (const rb of activeRoadblocks(s.log, s.turn)) closed.add(keyCell(rb.cell));
+  return closed;
+}
+
+/** 部隊がこのターンに捜索したビル（ドローンの2回目の判定用。取り消すとログごと戻る） */
+export function searchedThisTurn(s: Pick<GameState, "turn" | "log">, unit: number): Cell[] {
+  return s.log.flatMap((e) => (e.kind === "SEARCH" && e.turn === s.turn && e.heli === unit ? [e.target] : []));
+}
+
+type UnitTurnInput = UnitsInput & Pick<GameState, "rules" | "turn" | "log">;
+
+/** このターンに移動できるか（ドローンは捜索したターンは動けない） */
+export function canUnitMove(s: UnitTurnInput, unit: number): boolean {
+  return s.heliKinds[unit] !== "DRONE" || searchedThisTurn(s, unit).length === 0;
+}
+
+/**
+ * 部隊がその場で捜索できるビル
+ * - ヘリ・ドローン：交差点の周りのビル（近くの屋上も）。ドローンはこのターンに捜索したビルを除く
+ * - 地上部隊：なし（隣のビルへ入ると捜索になる）
+ */
+export function unitSearchCells(s: UnitTurnInput, unit: number): Cell[] {
+  const kind = s.heliKinds[unit];
+  if (onCell(kind)) return [];
+  const cells = searchableCells(s.helicopters[unit], s.rules);
+  if (kind !== "DRONE") return cells;
+  const done = new Set(searchedThisTurn(s, unit).map(keyCell));
+  return cells.filter((c) => !done.has(keyCell(c)));
+}
+
+/**
+ * 部隊の移動先（他の部隊がいるところには行けない）
+ * - ヘリ・ドローン：隣の交差点（ヘリ通行止めの道路は通れない）
+ * - 地上部隊：隣の通れるビル
+ */
+export function unitMoves(s: UnitTurnInput, unit: number): Node[] {
+  if (!canUnitMove(s, unit)) return [];
+  const from = s.helicopters[unit];
+  if (onCell(s.heliKinds[unit])) {
+    const ground = groundCells(s);
+    return neighborsCell(from, s.rules).filter((c) => !ground.has(keyCell(c)));
+  }
+  return neighborsNode(from, s.rules).filter((n) => {
+    const at = airUnitAt(s, n);
+    return at < 0 || at === unit;
+  });
+}
+
+/**
+ * 犯人の最後の逃げ道：そこをふさぐと、その犯人が次の移動で入れるビルがなくなる（closed は今入れないビル）
+ * 高速道路で通り抜けるビルも、どの移動でも通るなら最後の逃げ道
+ */
+function lastExits(s: Pick<GameState, "rules" | "criminals">, closed: ReadonlySet<string>): Set<string> {
+  const exits = new Set<string>();
+  for (const { pos, visits, caught } of s.criminals) {
+    if (!pos || caught) continue;
+    const steps = criminalSteps(pos, s.rules, new Set([...Object.keys(visits), ...closed]));
+    if (steps.length === 0) continue;
+    const passed = steps.map((m) => (m.via ? [keyCell(m.via), keyCell(m.to)] : [keyCell(m.to)]));
+    for (const k of passed[0]) if (passed.every((p) => p.includes(k))) exits.add(k);
+  }
+  return exits;
+}
+
+/**
+ * 部隊がロードブロックを置けるビル（もう入れないビル・犯人の最後の逃げ道は除く）
+ * - ヘリ・ドローン：交差点の周りのビル（近くの屋上も。捜索できる範囲と同じ）
+ * - 地上部隊：隣のビル
+ */
+export function roadblockCells(s: UnitTurnInput & Pick<GameState, "criminals">, unit: number): Cell[] {
+  const at = s.helicopters[unit];
+  const cells = onCell(s.heliKinds[unit]) ? neighborsCell(at, s.rules) : searchableCells(at, s.rules);
+  const closed = closedCells(s);
+  const exits = lastExits(s, closed);
+  return cells.filter((c) => !isBlocked(c, s.rules) && !closed.has(keyCell(c)) && !exits.has(keyCell(c)));
+}
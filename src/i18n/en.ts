@@ -0,0 +1,381 @@
+import type { Messages } from "./index.ts";
+
+/**
+ * English message catalog (same shape as ja.ts)
+ */
+export const en: Messages = {
+  langName: "English",
+
+  roles: {
+    POLICE: "Police",
+    CRIMINAL: "Criminal",
+  },
+
+  title: {
+    name: "City Chase",
+    tagline: "Track down the criminal on the run! Tag meets hide-and-seek!!",
+    soloCriminal: "Solo: Criminal (vs Police AI)",
+    soloPolice: "Solo: Police (vs Criminal AI)",
+    passPlay: "Play with a friend (pass the device)",
+    stats: "📊 View stats",
+    language: "言語 / Language",
+
+    rules: "Rules",
+    ruleLabels: {
+      quick: "Quick",
+      standard: "Standard",
+      long: "Long",
+    },
+    rulesSummary: (maxTurn, actions, units) => `${maxTurn} turns / police ${actions} action${actions === 1 ? "" : "s"} / ${units}`,
+
+    criminals: "Number of criminals",
+    criminalCount: (n) => `${n}`,
+    criminalsSummary: (n) =>
+      n === 1
+        ? "One criminal."
+        : `${n} criminals move one at a time in number order. Police win by catching them all; the criminals win if even one gets away to the final turn.`,
+
+    map: "Map",
+    mapStandard: "Standard city",
+    mapEdit: "✏️ Create / edit maps",
+    mapSummary: (blocked, closed, special) =>
+      blocked + closed + special === 0
+        ? "No blocked buildings, closed roads or special buildings"
+        : `${blocked} blocked building${blocked === 1 ? "" : "s"} / ${closed} road${closed === 1 ? "" : "s"} closed to helicopters / ${special} special building${special === 1 ? "" : "s"}`,
+
+    reveal: "Reveal rule (announce the criminal's position on set turns)",
+    revealOn: "On",
+    revealOff: "Off",
+    revealPlaceholder: "e.g. 3, 6, 9",
+    revealNone: "No reveals (traces are found only by searching)",
+    revealSummary: (turns) => `After the criminal moves on turn ${turns.join(", ")}, their position is revealed to the police.`,
+    revealEmpty: (maxTurn) => `Enter the turns to reveal on (1–${maxTurn}).`,
+
+    series: "Series (swap roles every game)",
+    seriesGames: (n) => `${n} game${n === 1 ? "" : "s"}`,
+    seriesNone: "No series",
+    seriesSummary: (games) =>
+      `${games} games, ${games / 2} as police and ${games / 2} as criminal each; most wins takes the series (ties go to the lower total capture turns). Available in solo and friend play.`,
+
+    aiLevels: {
+      EASY: "Easy",
+      NORMAL: "Normal",
+      HARD: "Hard",
+    },
+    policeAi: "Police AI strength (solo as criminal)",
+    policeAiNotes: {
+      EASY: "Sometimes moves on a whim",
+      NORMAL: "Focuses its searches around traces",
+      HARD: "Deduces the criminal's whereabouts exactly from search results",
+    },
+    criminalAi: "Criminal AI strength (solo as police)",
+    criminalAiNotes: {
+      EASY: "Wanders freely, only avoiding dead ends",
+      NORMAL: "Prefers open areas and the center",
+      HARD: "Avoids helicopter search range and its own traces",
+    },
+
+    seed: "Seed (leave blank for random)",
+    seedPlaceholder: "e.g. 12345",
+
+    online: "Online play (on separate devices)",
+    createRoom: {
+      POLICE: "Create room as police",
+      CRIMINAL: "Create room as criminal",
+    },
+    roomCodePlaceholder: "Room code",
+    join: "Join",
+    watch: "Watch",
+    connecting: "Connecting to server…",
+    serverNote: "Start the server with npm run server. The room creator's rules and seed are used.",
+  },
+
+  result: {
+    policeWin: "🚓 Police win!",
+    policeLose: "🚗 Police lose…",
+    criminalWin: "🚗 Criminal wins!",
+    criminalLose: "🚓 Criminal loses…",
+    caught: "You found the criminal",
+    gotAway: "The criminal got away",
+    escaped: "Got away",
+    found: "The police found you",
+    seed: "Seed: ",
+    sameSeed: "Rematch with same seed",
+  },
+
+  game: {
+    actionsLeft: "Actions left: ",
+    criminalName: (n) => `Criminal ${n}`,
+    caughtCount: (caught, total) => `Caught ${caught}/${total}`,
+    revealTurns: (turns) => `📢 Reveals: ${turns.join(", ")}`,
+    nextReveal: (turn) => ` (next: turn ${turn})`,
+    rematch: "Rematch",
+    retryGame: "Restart this game",
+    nextSeriesGame: "Next game (swap roles)",
+    newSeries: "New series",
+    backToTitle: "Back to title",
+    stopWatching: "Stop watching",
+    spectatorView: "Watching: view",
+    spectatorViews: {
+      POLICE: "Police view",
+      CRIMINAL: "Criminal view",
+      OMNISCIENT: "Show everything",
+    },
+    openSpectator: "👀 Open spectator window",
+    roomCode: "Room code: ",
+    watching: "Watching",
+    you: (role) => `You: ${role}`,
+    opponent: (present) => `Opponent: ${present ? "connected" : "waiting…"}`,
+  },
+
+  hints: {
+    announced: (turn) => `📢 Turn ${turn}: the criminal's position has been revealed.`,
+    opponentTurn: "It's your opponent's turn. Waiting for their move…",
+    setupPassPlay: (units, ground) =>
+      `Friend play: police, place your units: ${units} (tap intersections${ground ? "; ground units go on buildings" : ""}).`,
+    setup: (units, ground) => `Police: place your units: ${units} (tap intersections${ground ? "; ground units go on buildings" : ""}).`,
+    policeSearch: "Police: search mode (tap one of the 4 surrounding buildings)",
+    policeMove: "Police: move mode (move to an adjacent intersection)",
+    criminalAiMoving: "Criminal AI is moving…",
+    criminalHide: "Criminal: tap the building to hide in first.",
+    policeAiThinking: "Police AI is acting (deducing & probing)…",
+    policeAiTurn: "Police AI's turn",
+    criminalMove: "Criminal: only possible moves (adjacent, not yet visited) are highlighted. No revisiting.",
+    criminalTurn: (name) => `▶ ${name}'s turn`,
+    end: (winner, criminals) =>
+      `${winner === "CRIMINAL" ? "Criminal wins" : "Police win"}: ${
+        criminals > 1 ? "the colored lines are each criminal's route" : "the white line is the criminal's route"
+      } (S = start / E = end).`,
+  },
+
+  board: {
+    paths: (n, exact) =>
+      exact ? `${n} possible route${n === 1 ? "" : "s"}` : n > 0 ? `${n}+ possible routes` : "Too many routes to count",
+    deadEnd: "Dead end: you can't keep running until the last turn",
+    risk: (now, afterMove) => `Police units that can search now: ${now} / after moving: ${afterMove}`,
+    announced: (turn) => `Criminal position revealed on turn ${turn}`,
+    lastSearch: "Police's last search",
+  },
+
+  overlay: {
+    policeAi: "Police AI is acting…",
+    criminalAi: "Criminal AI is moving…",
+  },
+
+  handoff: {
+    title: {
+      POLICE: "🚓 Police's turn",
+      CRIMINAL: "🚗 Criminal's turn",
+    },
+    ready: "Ready (only the player looking should tap)",
+    criminalHide: (criminals) =>
+      criminals > 1
+        ? `Pass the device to the criminal. After seeing the police units, the criminal picks starting buildings for all ${criminals} criminals.`
+        : "Pass the device to the criminal. After seeing the police units, the criminal picks a starting building.",
+    firstPoliceTurn: (actions) => `Pass the device to the police. Police get ${actions} actions (you may pick a different unit each time).`,
+    policeTurn: (actions) => `Pass the device to the police. Next police turn (${actions} actions).`,
+    criminalMove: (criminals) =>
+      criminals > 1
+        ? "Pass the device to the criminal. Each remaining criminal moves once (no waiting / no revisiting)."
+        : "Pass the device to the criminal. The criminal moves once (no waiting / no revisiting).",
+    seriesNext: (player, game) => `Pass the device to ${player}. ${player} plays police in game ${game}.`,
+  },
+
+  controls: {
+    clearHelis: "Reset placement",
+    startSetup: "Start with this placement",
+    search: "Search",
+    move: "Move",
+    searchHelp: "Tap one of the 4 surrounding buildings to search it.",
+    moveHelp: "Tap the intersection to move to (adjacent only / can't stay in place).",
+    deduction: (on) => (on ? "Deduction ON" : "Deduction OFF"),
+    candidates: (n, exact) => `Candidates: ${exact ? "" : "up to "}${n}`,
+    undo: "↩ Undo",
+    endTurn: "End turn",
+    escapeHints: (on) => (on ? "Escape hints ON" : "Escape hints OFF"),
+    escapeHintsHelp: "Numbers are danger (0–100). 🚁 = can be searched next police turn without moving / ⛔ = dead end (can't last to the final turn).",
+  },
+
+  replay: {
+    title: "Replay",
+    frame: (turn, text) => `Turn ${turn}: ${text}`,
+    heliPlaced: "Police units placed",
+    criminalStart: (who) => `${who} went into hiding`,
+    heliMove: (unit) => `${unit} moved`,
+    search: (unit, result) =>
+      `${unit} searched → ${result === "CAUGHT" ? "Caught!" : result === "TRACE" ? "Trace found" : "Miss"}`,
+    criminalMove: (who) => `${who} moved`,
+    announce: (who) => `${who}'s position revealed`,
+    roadblock: (unit) => `${unit} set a roadblock`,
+    winner: (winner) => (winner === "POLICE" ? "Police win" : "Criminal wins"),
+    back: "◀ Back",
+    play: "▶ Play",
+    pause: "⏸ Pause",
+    forward: "Forward ▶",
+  },
+
+  series: {
+    players: {
+      YOU: "You",
+      AI: "AI",
+      PLAYER1: "Player 1",
+      PLAYER2: "Player 2",
+    },
+    heading: (game, length) => `Series: game ${game} of ${length}`,
+    police: (player) => `Police: ${player}`,
+    tiebreak: "Ties go to the lower total capture turns",
+    player: "Player",
+    wins: "Wins",
+    captureTurns: "Capture turns",
+    gamePolice: (player) => `Police ${player}: `,
+    caughtAt: (turn) => `caught on turn ${turn}`,
+    escaped: "escaped",
+    draw: "The series is a draw",
+    champion: (player) => `Series winner: ${player}`,
+  },
+
+  stats: {
+    title: "📊 Stats",
+    modes: {
+      SINGLE: "Solo",
+      PASS_PLAY: "Friend play",
+      ONLINE: "Online",
+    },
+    policeSideWins: "police side wins",
+    row: (mode, side) => `${mode}: ${side}`,
+    loading: "Loading…",
+    empty: "No records for these rules yet (games are saved automatically when they end).",
+    winRates: (games) => `Win rate (${games} game${games === 1 ? "" : "s"})`,
+    mode: "Mode",
+    games: "Games",
+    wins: "Wins",
+    winRate: "Win %",
+    captureTurns: "Capture turn",
+    escapedBar: (n) => `Escaped ${n} time${n === 1 ? "" : "s"}`,
+    caughtBar: (turn, n) => `Caught on turn ${turn}: ${n} time${n === 1 ? "" : "s"}`,
+    escapedShort: "Esc",
+    startHeatmap: "Criminal start",
+    captureHeatmap: "Capture location",
+    confirmClear: "Delete all stats on this device?",
+    clear: "Delete all stats",
+  },
+
+  mapEditor: {
+    title: "🗺️ Map editor",
+    size: (n) => `${n}x${n} city (size of the selected rules)`,
+    newMap: "+ New map",
+    name: "Name",
+    namePlaceholder: "e.g. River town",
+    untitled: "Untitled map",
+    toolBlock: "🌳 Blocked buildings",
+    toolRoad: "🚧 Closed roads",
+    helpBlock: "Tap a building to make it a park, river or other place the criminal can't enter (tap again to undo).",
+    helpRoad: "Tap a road between intersections to close it to helicopters (tap again to undo).",
+    helpTerrain: (help) => `Tap a building to place it (tap again to make it a normal building): ${help}`,
+    problems: {
+      TOO_MANY_BLOCKED: "Block at most half of the buildings",
+      DISCONNECTED: "The open buildings are split into separate areas",
+      ENCLOSED_NODE: "An intersection has every surrounding building blocked (helicopters there couldn't search)",
+    },
+    playable: "✅ This map is playable",
+    save: "Save",
+    saved: "Saved",
+    use: "Play on this map",
+    reset: "Open everything",
+    delete: "Delete",
+    confirmDelete: (name) => `Delete "${name}"?`,
+    road: (from, to, closed) => `Road from ${from} to ${to}${closed ? ": closed" : ""}`,
+  },
+
+  terrain: {
+    names: {
+      TUNNEL: "Tunnel",
+      HIGHWAY: "Highway",
+      ROOFTOP: "Rooftop",
+    },
+    help: {
+      TUNNEL: "Leaves no trace (searching it is a miss unless the criminal is there)",
+      HIGHWAY: "From here the criminal can move two buildings in a straight line in one turn (passing through the one in between)",
+      ROOFTOP: "Good view: can also be searched from the intersections next to its corners",
+    },
+    legend: (name, help) => `${name}: ${help}`,
+  },
+
+  units: {
+    title: "Police units",
+    names: {
+      HELI: "Helicopter",
+      DRONE: "Drone",
+      GROUND: "Ground unit",
+    },
+    help: {
+      HELI: "Searches one building around its intersection, or moves to the next intersection",
+      DRONE: "Searches up to two buildings around its intersection (one action each), but can't search in a turn it moved",
+      GROUND: "Sits in a building and searches the next building by entering it. The criminal can't enter the building it's in",
+    },
+    line: (name, help) => `${name}: ${help}`,
+    label: (name, n) => `${name} ${n}`,
+    list: (counts) => counts.map(([name, n]) => `${name} ×${n}`).join(", "),
+    cycle: "Tap to change the type",
+    add: "+ Add",
+    remove: "− Remove",
+    groundMoveHelp: "Tap the next building to enter (entering searches it).",
+  },
+
+  roadblocks: {
+    title: "Roadblocks",
+    off: "Off",
+    turns: (n) => `${n} turn${n === 1 ? "" : "s"}`,
+    summary: (n) =>
+      n > 0 ? `Police can spend an action to seal a nearby building for ${n} turn${n === 1 ? "" : "s"} (the criminal can't enter)` : "Police can only move and search",
+    mode: "Roadblock",
+    hint: "Police: roadblock mode (tap a building to seal)",
+    help: (n) => `Tap the building to seal (the criminal can't enter it for ${n} turn${n === 1 ? "" : "s"}). A criminal's last way out can't be sealed.`,
+    left: (n) => `Roadblock: ${n} turn${n === 1 ? "" : "s"} left`,
+  },
+
+  feedback: {
+    title: "Sound & vibration",
+    sound: (on) => (on ? "🔊 Sound ON" : "🔇 Sound OFF"),
+    haptics: (on) => (on ? "📳 Vibration ON" : "📴 Vibration OFF"),
+    test: "▶ Test",
+    volume: (pct) => `Volume ${pct}%`,
+    noHaptics: "This device or browser doesn't support vibration",
+  },
+
+  a11y: {
+    board: "Board",
+    cell: (name, details) => (details.length > 0 ? `${name}: ${details.join(", ")}` : name),
+    node: (name, details) => `Intersection ${name}${details.length > 0 ? `: ${details.join(", ")}` : ""}`,
+    trace: (turn) => `trace (turn ${turn})`,
+    criminalHere: "criminal is here",
+    criminalAt: (name) => `${name} is here`,
+    traceBy: (names) => `passed by ${names.join(", ")}`,
+    announced: (turn) => `position revealed on turn ${turn}`,
+    possible: (paths, exact) =>
+      `criminal may be here (${exact ? `${paths} route${paths === 1 ? "" : "s"}` : paths > 0 ? `${paths}+ routes` : "too many routes to count"})`,
+    danger: (danger) => `danger ${danger}`,
+    deadEnd: "dead end",
+    selectable: "selectable",
+    selected: "selected",
+    acted: "already acted",
+    movable: "can move here",
+    heatmapCell: (name, n) => `${name}: ${n}`,
+    blocked: "blocked (park / river)",
+    search: (unit, cell, result) => `${unit} searched ${cell}: ${result === "TRACE" ? "trace found!" : "miss"}`,
+    keyHelp: (units, roadblocks) =>
+      `Keyboard: arrow keys move between buildings and intersections / Enter to act / 1–${units} to pick a unit / S to switch search and move${roadblocks ? " / R for roadblock" : ""}`,
+    roadblock: (left) => `roadblock (${left} turn${left === 1 ? "" : "s"} left)`,
+  },
+
+  onlineErrors: {
+    NO_SUCH_ROOM: "No room with that code",
+    ROOM_FULL: "That room is already full",
+    UNKNOWN_RULES: "The server doesn't support these rules",
+    NOT_YOUR_TURN: "It's your opponent's turn",
+    WRONG_PHASE: "You can't do that right now",
+    BAD_MESSAGE: "The server rejected that action",
+    BLOCKED_CELL: "You can't enter that building",
+    DISCONNECTED: "Lost connection to the server",
+  },
+};
@@ -0,0 +1,43 @@
+import type { HandoffMessage } from "../game/types.ts";
+import { ja } from "./ja.ts";
+import { en } from "./en.ts";
+
+/**
+ * 画面の言語（メッセージカタログの切り替え）
+ * 選んだ言語は localStorage に残し、初回はブラウザの言語に合わせる
+ */
+export type Lang = "ja" | "en";
+export type Messages = typeof ja;
+
+export const LANGS: Lang[] = ["ja", "en"];
+
+export const MESSAGES: Record<Lang, Messages> = { ja, en };
+
+const LANG_KEY = "citychase:lang";
+
+export function loadLang(): Lang {
+  try {
+    const saved = window.localStorage.getItem(LANG_KEY);
+    if (saved === "ja" || saved === "en") return saved;
+  } catch {
+    // localStorage が使えないときはブラウザの言語で
+  }
+  return window.navigator.language.toLowerCase().startsWith("ja") ? "ja" : "en";
+}
+
+export function saveLang(lang: Lang) {
+  try {
+    window.localStorage.setItem(LANG_KEY, lang);
+  } catch {
+    // 保存できなくてもこのセッションでは切り替わる
+  }
+}
+
+/** 端末の受け渡し画面の案内文 */
+export function handoffText(t: Messages, m: HandoffMessage): string {
+  if (m.kind === "CRIMINAL_HIDE") return t.handoff.criminalHide(m.criminals);
+  if (m.kind === "FIRST_POLICE_TURN") return t.handoff.firstPoliceTurn(m.actions);
+  if (m.kind === "POLICE_TURN") return t.handoff.policeTurn(m.actions);
+  if (m.kind === "CRIMINAL_MOVE") return t.handoff.criminalMove(m.criminals);
+  return t.handoff.seriesNext(t.series.players[m.player], m.game);
+}
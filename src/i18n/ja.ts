@@ -0,0 +1,378 @@
+import type { AiLevel, Mode, Role, SeriesPlayer, SpectatorView, Terrain, UnitKind } from "../game/types.ts";
+import type { ServerErrorReason } from "../net/protocol.ts";
+import type { MapProblem } from "../game/maps.ts";
+
+/**
+ * 日本語のメッセージカタログ（画面の文言はすべてここ）
+ * 数や名前が入る文言は関数にする。en.ts は同じ形（Messages）で書く
+ */
+export const ja = {
+  langName: "日本語",
+
+  roles: {
+    POLICE: "警察",
+    CRIMINAL: "犯人",
+  } as Record<Role, string>,
+
+  title: {
+    name: "シティチェイス",
+    tagline: "街中を逃げ回る犯人を追跡！鬼ごっこ×かくれんぼ！！",
+    soloCriminal: "ソロ：犯人（警察AI）",
+    soloPolice: "ソロ：警察（犯人AI）",
+    passPlay: "友達と対戦（同じ端末で交代）",
+    stats: "📊 成績を見る",
+    language: "言語 / Language",
+
+    rules: "ルール",
+    ruleLabels: {
+      quick: "クイック",
+      standard: "標準",
+      long: "ロング",
+    } as Record<string, string>,
+    rulesSummary: (maxTurn: number, actions: number, units: string) => `${maxTurn}ターン / 警察${actions}回行動 / ${units}`,
+
+    criminals: "犯人の人数",
+    criminalCount: (n: number) => `${n}人`,
+    criminalsSummary: (n: number): string =>
+      n === 1 ? "犯人は1人です。" : `犯人${n}人が番号順に1人ずつ動きます。全員捕まえたら警察の勝ち、1人でも最後まで逃げ切れば犯人の勝ち。`,
+
+    map: "地図",
+    mapStandard: "標準の街",
+    mapEdit: "✏️ 地図を作る・編集する",
+    mapSummary: (blocked: number, closed: number, special: number): string =>
+      blocked + closed + special === 0
+        ? "通れないビル・通行止めの道路・特別なビルはありません"
+        : `通れないビル ${blocked}か所 / ヘリ通行止めの道路 ${closed}か所 / 特別なビル ${special}か所`,
+
+    reveal: "位置公開ルール（決まったターンに犯人の現在地を公開）",
+    revealOn: "あり",
+    revealOff: "なし",
+    revealPlaceholder: "例：3, 6, 9",
+    revealNone: "公開なし（痕跡は捜索したときだけ見つかる）",
+    revealSummary: (turns: number[]) => `Turn ${turns.join("・")} の犯人の移動後に、現在地を警察に公開します。`,
+    revealEmpty: (maxTurn: number) => `公開するターンを 1〜${maxTurn} で入力してください。`,
+
+    series: "シリーズ（1試合ごとに役割交代）",
+    seriesGames: (n: number) => `${n}試合`,
+    seriesNone: "シリーズなし",
+    seriesSummary: (games: number) =>
+      `${games}試合（警察・犯人${games / 2}回ずつ）で勝ち数が多い方が優勝（同点なら確保ターン合計が少ない方）。ソロ・友達対戦で使えます。`,
+
+    aiLevels: {
+      EASY: "やさしい",
+      NORMAL: "ふつう",
+      HARD: "つよい",
+    } as Record<AiLevel, string>,
+    policeAi: "警察AIの強さ（ソロ：犯人）",
+    policeAiNotes: {
+      EASY: "ときどき気まぐれに動く",
+      NORMAL: "痕跡の近くを重点的に捜索",
+      HARD: "捜索結果から犯人の居場所を厳密に推理",
+    } as Record<AiLevel, string>,
+    criminalAi: "犯人AIの強さ（ソロ：警察）",
+    criminalAiNotes: {
+      EASY: "行き止まりだけ避けて気ままに逃げる",
+      NORMAL: "広い場所・中央を好んで逃げる",
+      HARD: "ヘリの捜索範囲と痕跡を避けて逃げる",
+    } as Record<AiLevel, string>,
+
+    seed: "シード（空欄ならランダム）",
+    seedPlaceholder: "例：12345",
+
+    online: "オンライン対戦（別々の端末で）",
+    createRoom: {
+      POLICE: "警察で部屋を作る",
+      CRIMINAL: "犯人で部屋を作る",
+    } as Record<Role, string>,
+    roomCodePlaceholder: "部屋コード",
+    join: "参加する",
+    watch: "観戦する",
+    connecting: "サーバーに接続中…",
+    serverNote: "サーバーは npm run server で起動します。ルールとシードは部屋を作る人の設定を使います。",
+  },
+
+  result: {
+    policeWin: "🚓 警察の勝ち！",
+    policeLose: "🚗 警察の負け…",
+    criminalWin: "🚗 犯人の勝ち！",
+    criminalLose: "🚓 犯人の負け…",
+    caught: "犯人を見つけました",
+    gotAway: "犯人に逃げ切られました",
+    escaped: "逃げ切りました",
+    found: "警察に見つかりました",
+    seed: "シード：",
+    sameSeed: "同じシードで再戦",
+  },
+
+  game: {
+    actionsLeft: "行動残り：",
+    criminalName: (n: number) => `犯人${n}`,
+    caughtCount: (caught: number, total: number) => `確保 ${caught}/${total}人`,
+    revealTurns: (turns: number[]) => `📢 位置公開：${turns.join("・")}`,
+    nextReveal: (turn: number) => `（次は Turn ${turn}）`,
+    rematch: "再戦する",
+    retryGame: "この試合をやり直す",
+    nextSeriesGame: "次の試合へ（役割交代）",
+    newSeries: "新しいシリーズ",
+    backToTitle: "タイトルへ戻る",
+    stopWatching: "観戦をやめる",
+    spectatorView: "観戦中：見え方",
+    spectatorViews: {
+      POLICE: "警察の視点",
+      CRIMINAL: "犯人の視点",
+      OMNISCIENT: "全部見る",
+    } as Record<SpectatorView, string>,
+    openSpectator: "👀 観戦ウィンドウを開く",
+    roomCode: "部屋コード：",
+    watching: "観戦中",
+    you: (role: string) => `あなた：${role}`,
+    opponent: (present: boolean) => `相手：${present ? "接続中" : "待っています…"}`,
+  },
+
+  hints: {
+    announced: (turn: number) => `📢 Turn ${turn}：犯人の現在地が公開されました。`,
+    opponentTurn: "相手の手番です。相手の操作を待っています…",
+    setupPassPlay: (units: string, ground: boolean) => `友達対戦：警察が${units}を配置（交差点${ground ? "・地上部隊はビル" : ""}をタップ）。`,
+    setup: (units: string, ground: boolean) => `警察：${units}を配置してください（交差点${ground ? "・地上部隊はビル" : ""}をタップ）。`,
+    policeSearch: "警察：捜索モード（周囲4ビルのどれか1つをタップ）",
+    policeMove: "警察：移動モード（隣接交差点へ移動）",
+    criminalAiMoving: "犯人AIが移動中…",
+    criminalHide: "犯人：最初に隠れるビルをタップして決めてください。",
+    policeAiThinking: "警察AIが行動中（推理＆揺さぶり）…",
+    policeAiTurn: "警察AIのターン",
+    criminalMove: "犯人：移動候補（隣接かつ未訪問）だけ明るく表示（再訪不可）。",
+    criminalTurn: (name: string) => `▶ ${name} の番`,
+    end: (winner: Role, criminals: number): string =>
+      `${winner === "CRIMINAL" ? "犯人の勝ち" : "警察の勝ち"}：${criminals > 1 ? "色付きの線がそれぞれの犯人ルート" : "白線が犯人ルート"}です（S=開始 / E=終了）。`,
+  },
+
+  board: {
+    paths: (n: number, exact: boolean) => (exact ? `経路 ${n} 通り` : n > 0 ? `経路 ${n} 通り以上` : "経路は数えきれません"),
+    deadEnd: "行き止まり：最終ターンまで逃げ続けられません",
+    risk: (now: number, afterMove: number) => `すぐ捜索できる部隊 ${now}隊 / 移動して捜索できる部隊 ${afterMove}隊`,
+    announced: (turn: number) => `Turn ${turn} に公開された犯人の位置`,
+    lastSearch: "警察の直前捜索",
+  },
+
+  overlay: {
+    policeAi: "警察AIが行動中…",
+    criminalAi: "犯人AIが移動中…",
+  },
+
+  handoff: {
+    title: {
+      POLICE: "🚓 警察の番",
+      CRIMINAL: "🚗 犯人の番",
+    } as Record<Role, string>,
+    ready: "準備OK（見ている人だけ押す）",
+    criminalHide: (criminals: number): string =>
+      criminals > 1
+        ? `犯人に端末を渡してください。犯人は部隊の配置を見た上で${criminals}人分の初期位置を選びます。`
+        : "犯人に端末を渡してください。犯人は部隊の配置を見た上で初期位置を選びます。",
+    firstPoliceTurn: (actions: number) => `警察に端末を渡してください。警察は${actions}回行動（部隊は毎回選び直しOK）。`,
+    policeTurn: (actions: number) => `警察に端末を渡してください。次の警察ターンです（${actions}回行動）。`,
+    criminalMove: (criminals: number): string =>
+      criminals > 1
+        ? "犯人に端末を渡してください。残っている犯人が1人1回ずつ移動します（待機NG / 再訪NG）。"
+        : "犯人に端末を渡してください。犯人は1回だけ移動します（待機NG / 再訪NG）。",
+    seriesNext: (player: string, game: number) => `${player}に端末を渡してください。第${game}試合は警察です。`,
+  },
+
+  controls: {
+    clearHelis: "配置をやり直す",
+    startSetup: "この配置で開始",
+    search: "捜索する",
+    move: "移動する",
+    searchHelp: "周囲4ビルのどれか1つをタップして捜索してください。",
+    moveHelp: "移動したい交差点をタップしてください（隣接のみ / 同じ場所に停泊不可）。",
+    deduction: (on: boolean): string => (on ? "推理表示 ON" : "推理表示 OFF"),
+    candidates: (n: number, exact: boolean) => `候補マス：${n}${exact ? "" : "（最大）"}`,
+    undo: "↩ 元に戻す",
+    endTurn: "ターン終了",
+    escapeHints: (on: boolean): string => (on ? "逃走ヒント ON" : "逃走ヒント OFF"),
+    escapeHintsHelp: "数字は危険度（0〜100）。🚁＝次の警察ターンにそのまま捜索できる / ⛔＝行き止まり（最終ターンまで逃げられない）。",
+  },
+
+  replay: {
+    title: "リプレイ",
+    frame: (turn: number, text: string) => `Turn ${turn}：${text}`,
+    heliPlaced: "部隊を配置",
+    criminalStart: (who: string) => `${who}が潜伏開始`,
+    heliMove: (unit: string) => `${unit}が移動`,
+    search: (unit: string, result: "CAUGHT" | "TRACE" | "MISS") =>
+      `${unit}が捜索 → ${result === "CAUGHT" ? "確保！" : result === "TRACE" ? "痕跡発見" : "ハズレ"}`,
+    criminalMove: (who: string) => `${who}が移動`,
+    announce: (who: string) => `${who}の現在地を公開`,
+    roadblock: (unit: string) => `${unit}がロードブロック`,
+    winner: (winner: Role): string => (winner === "POLICE" ? "警察の勝ち" : "犯人の勝ち"),
+    back: "◀ 1手戻る",
+    play: "▶ 再生",
+    pause: "⏸ 停止",
+    forward: "1手進む ▶",
+  },
+
+  series: {
+    players: {
+      YOU: "あなた",
+      AI: "AI",
+      PLAYER1: "プレイヤー1",
+      PLAYER2: "プレイヤー2",
+    } as Record<SeriesPlayer, string>,
+    heading: (game: number, length: number) => `シリーズ 第${game}試合 / ${length}`,
+    police: (player: string) => `警察：${player}`,
+    tiebreak: "同点なら確保ターン合計が少ない方",
+    player: "プレイヤー",
+    wins: "勝ち",
+    captureTurns: "確保ターン計",
+    gamePolice: (player: string) => `警察 ${player}：`,
+    caughtAt: (turn: number) => `Turn ${turn} で確保`,
+    escaped: "逃げ切り",
+    draw: "シリーズは引き分け",
+    champion: (player: string) => `シリーズ優勝：${player}`,
+  },
+
+  stats: {
+    title: "📊 成績",
+    modes: {
+      SINGLE: "ソロ",
+      PASS_PLAY: "友達と対戦",
+      ONLINE: "オンライン",
+    } as Record<Mode, string>,
+    policeSideWins: "警察側の勝ち",
+    row: (mode: string, side: string) => `${mode}：${side}`,
+    loading: "読み込み中…",
+    empty: "このルールの記録はまだありません（対戦が終わると自動で残ります）。",
+    winRates: (games: number) => `勝率（${games}試合）`,
+    mode: "モード",
+    games: "試合",
+    wins: "勝ち",
+    winRate: "勝率",
+    captureTurns: "確保したターン",
+    escapedBar: (n: number) => `逃げ切り ${n}回`,
+    caughtBar: (turn: number, n: number) => `Turn ${turn} で確保 ${n}回`,
+    escapedShort: "逃",
+    startHeatmap: "犯人の開始マス",
+    captureHeatmap: "確保したマス",
+    confirmClear: "この端末の成績をすべて消しますか？",
+    clear: "成績をすべて消す",
+  },
+
+  mapEditor: {
+    title: "🗺️ 地図エディタ",
+    size: (n: number) => `${n}x${n} の街（選んでいるルールの大きさ）`,
+    newMap: "＋ 新しい地図",
+    name: "名前",
+    namePlaceholder: "例：川のある街",
+    untitled: "名前なしの地図",
+    toolBlock: "🌳 通れないビル",
+    toolRoad: "🚧 通行止めの道路",
+    helpBlock: "ビルをタップすると公園・川など犯人が入れない場所になります（もう一度タップで元に戻る）。",
+    helpRoad: "交差点の間の道路をタップするとヘリが通れなくなります（もう一度タップで元に戻る）。",
+    helpTerrain: (help: string) => `ビルをタップして置く（もう一度タップで普通のビルに戻る）：${help}`,
+    problems: {
+      TOO_MANY_BLOCKED: "通れないビルは全体の半分までにしてください",
+      DISCONNECTED: "通れるビルが途中で分断されています",
+      ENCLOSED_NODE: "周りのビルが全部通れない交差点があります（そこではヘリが捜索できません）",
+    } as Record<MapProblem, string>,
+    playable: "✅ この地図で遊べます",
+    save: "保存",
+    saved: "保存しました",
+    use: "この地図で遊ぶ",
+    reset: "全部通れるように戻す",
+    delete: "削除",
+    confirmDelete: (name: string) => `「${name}」を削除しますか？`,
+    road: (from: string, to: string, closed: boolean) => `道路 ${from} から ${to}${closed ? "：通行止め" : ""}`,
+  },
+
+  terrain: {
+    names: {
+      TUNNEL: "トンネル",
+      HIGHWAY: "高速道路",
+      ROOFTOP: "屋上",
+    } as Record<Terrain, string>,
+    help: {
+      TUNNEL: "通っても痕跡が残らない（捜索しても、犯人がいなければハズレ）",
+      HIGHWAY: "ここから犯人はまっすぐ2マス先まで1ターンで行ける（途中のビルも通ったことになる）",
+      ROOFTOP: "見晴らしがいいので、周りの交差点の1つ先からも捜索できる",
+    } as Record<Terrain, string>,
+    legend: (name: string, help: string) => `${name}：${help}`,
+  },
+
+  units: {
+    title: "警察の部隊",
+    names: {
+      HELI: "ヘリ",
+      DRONE: "ドローン",
+      GROUND: "地上部隊",
+    } as Record<UnitKind, string>,
+    help: {
+      HELI: "交差点から周りのビルを1つ捜索するか、隣の交差点へ移動する",
+      DRONE: "交差点から周りのビルを2つまで捜索できる（1つ1行動）。移動したターンは捜索できない",
+      GROUND: "ビルにいて、隣のビルへ入るとそのビルを捜索する。いるビルには犯人が入れない",
+    } as Record<UnitKind, string>,
+    line: (name: string, help: string) => `${name}：${help}`,
+    label: (name: string, n: number) => `${name}${n}`,
+    list: (counts: [string, number][]) => counts.map(([name, n]) => `${name}×${n}`).join("・"),
+    cycle: "タップで種類を切り替え",
+    add: "＋ 増やす",
+    remove: "− 減らす",
+    groundMoveHelp: "入りたい隣のビルをタップしてください（入ったビルを捜索します）。",
+  },
+
+  roadblocks: {
+    title: "ロードブロック",
+    off: "なし",
+    turns: (n: number) => `${n}ターン`,
+    summary: (n: number): string => (n > 0 ? `警察は1行動で近くのビルを${n}ターン封鎖できる（犯人が入れない）` : "警察は移動と捜索だけ"),
+    mode: "封鎖する",
+    hint: "警察：ロードブロックモード（封鎖するビルをタップ）",
+    help: (n: number) => `封鎖したいビルをタップしてください（${n}ターンのあいだ犯人が入れません）。犯人の最後の逃げ道はふさげません。`,
+    left: (n: number) => `ロードブロック：あと${n}ターン`,
+  },
+
+  feedback: {
+    title: "音と振動",
+    sound: (on: boolean): string => (on ? "🔊 音 ON" : "🔇 音 OFF"),
+    haptics: (on: boolean): string => (on ? "📳 振動 ON" : "📴 振動 OFF"),
+    test: "▶ 試しに鳴らす",
+    volume: (pct: number) => `音量 ${pct}%`,
+    noHaptics: "この端末・ブラウザは振動に対応していません",
+  },
+
+  a11y: {
+    board: "盤面",
+    cell: (name: string, details: string[]) => (details.length > 0 ? `${name}：${details.join("、")}` : name),
+    node: (name: string, details: string[]) => `交差点 ${name}${details.length > 0 ? `：${details.join("、")}` : ""}`,
+    trace: (turn: number) => `痕跡（Turn ${turn}）`,
+    criminalHere: "犯人の現在地",
+    criminalAt: (name: string) => `${name}の現在地`,
+    traceBy: (names: string[]) => `${names.join("・")}が通った`,
+    announced: (turn: number) => `Turn ${turn} に公開された位置`,
+    possible: (paths: number, exact: boolean) =>
+      `犯人がいるかもしれない（${exact ? `経路 ${paths} 通り` : paths > 0 ? `経路 ${paths} 通り以上` : "経路は数えきれません"}）`,
+    danger: (danger: number) => `危険度 ${danger}`,
+    deadEnd: "行き止まり",
+    selectable: "選べます",
+    selected: "選択中",
+    acted: "行動済み",
+    movable: "移動できます",
+    heatmapCell: (name: string, n: number) => `${name}：${n}回`,
+    blocked: "通れない（公園・川）",
+    search: (unit: string, cell: string, result: "MISS" | "TRACE") =>
+      `${unit}が ${cell} を捜索：${result === "TRACE" ? "痕跡を発見！" : "ハズレ"}`,
+    keyHelp: (units: number, roadblocks: boolean) =>
+      `キーボード：矢印キーでマス・交差点を移動 / Enter で決定 / 1〜${units} で部隊を選択 / S で捜索・移動を切り替え${roadblocks ? " / R でロードブロック" : ""}`,
+    roadblock: (left: number) => `ロードブロック（あと${left}ターン）`,
+  },
+
+  onlineErrors: {
+    NO_SUCH_ROOM: "その部屋コードは見つかりません",
+    ROOM_FULL: "その部屋はもう満員です",
+    UNKNOWN_RULES: "サーバーがこのルールに対応していません",
+    NOT_YOUR_TURN: "相手の手番です",
+    WRONG_PHASE: "今はその操作はできません",
+    BAD_MESSAGE: "サーバーが操作を受け付けませんでした",
+    BLOCKED_CELL: "そのビルには入れません",
+    DISCONNECTED: "サーバーとの接続が切れました",
+  } as Partial<Record<ServerErrorReason | "DISCONNECTED", string>>,
+};
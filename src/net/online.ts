@@ -0,0 +1,51 @@
+import { DEFAULT_SERVER_PORT, type ClientMessage, type ServerMessage } from "./protocol.ts";
+
+/**
+ * オンライン対戦：ブラウザ側の WebSocket 接続
+ * 接続先は VITE_CITYCHASE_SERVER（未設定なら同じホストの DEFAULT_SERVER_PORT）
+ */
+export function onlineServerUrl() {
+  const fromEnv = import.meta.env.VITE_CITYCHASE_SERVER as string | undefined;
+  if (fromEnv) return fromEnv;
+  const proto = window.location.protocol === "https:" ? "wss" : "ws";
+  return `${proto}://${window.location.hostname}:${DEFAULT_SERVER_PORT}`;
+}
+
+export type OnlineConnection = {
+  send: (msg: ClientMessage) => void;
+  close: () => void;
+};
+
+/**
+ * サーバーにつなぎ、開いたら first（CREATE / JOIN）を送る
+ * 自分から close() したときは onClose を呼ばない
+ */
+export function connectOnline(
+  first: ClientMessage,
+  handlers: { onMessage: (msg: ServerMessage) => void; onClose: () => void }
+): OnlineConnection {
+  const ws = new WebSocket(onlineServerUrl());
+  const pending: ClientMessage[] = [first];
+  let closedByUs = false;
+
+  ws.onopen = () => {
+    for (const msg of pending.splice(0)) ws.send(JSON.stringify(msg));
+  };
+  ws.onmessage = (e) => {
+    handlers.onMessage(JSON.parse(String(e.data)) as ServerMessage);
+  };
+  ws.onclose = () => {
+    if (!closedByUs) handlers.onClose();
+  };
+
+  return {
+    send: (msg) => {
+      if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(msg));
+      else if (ws.readyState === WebSocket.CONNECTING) pending.push(msg);
+    },
+    close: () => {
+      closedByUs = true;
+      ws.close();
+    },
+  };
+}
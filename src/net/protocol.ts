@@ -0,0 +1,34 @@
+import type { Action, RejectReason } from "../game/engine.ts";
+import type { CityMap, GameState, Role, SpectatorView, UnitKind } from "../game/types.ts";
+
+/**
+ * オンライン対戦の通信内容（ブラウザ ⇔ server/ の WebSocket サーバー、JSON 1件 = 1メッセージ）
+ */
+
+export const DEFAULT_SERVER_PORT = 8787;
+
+export type ClientMessage =
+  | {
+      type: "CREATE";
+      role: Role;
+      rulesId: string;
+      seed?: number;
+      revealTurns?: number[];
+      map?: CityMap;
+      criminalCount?: number;
+      units?: UnitKind[];
+      roadblockTurns?: number;
+    } // 部屋を作る（自分の役割とルール・位置公開ターン・地図・犯人の人数・警察の部隊・ロードブロックのターン数）
+  | { type: "JOIN"; code: string } // 部屋コードで参加（空いている役割に入る）
+  | { type: "WATCH"; code: string; view: SpectatorView } // 観戦（もう一度送ると見え方を切り替え）
+  | { type: "ACTION"; action: Action } // ゲーム操作（サーバーがルールエンジンで検証）
+  | { type: "REMATCH" }; // END 後に同じ部屋・同じ役割で再戦
+
+export type ServerErrorReason = RejectReason | "BAD_MESSAGE" | "UNKNOWN_RULES" | "NO_SUCH_ROOM" | "ROOM_FULL" | "NOT_IN_ROOM";
+
+export type ServerMessage =
+  | { type: "JOINED"; code: string; role: Role }
+  | { type: "WATCHING"; code: string; view: SpectatorView }
+  | { type: "OPPONENT"; present: boolean } // 相手の接続状況
+  | { type: "STATE"; state: GameState } // その役割（観戦者はその見え方）に見せてよい状態だけ
+  | { type: "ERROR"; reason: ServerErrorReason };
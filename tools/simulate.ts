@@ -0,0 +1,90 @@
+import { parseArgs } from "node:util";
+import { CRIMINAL_AI, POLICE_AI } from "../src/game/ai.ts";
+import { RULE_PRESETS } from "../src/game/rules.ts";
+import { simulateMatchup, type MatchupSummary } from "../src/game/simulate.ts";
+import type { CriminalStrategy, PoliceStrategy } from "../src/game/strategy.ts";
+
+/**
+ * AI同士の対戦シミュレーター
+ *   npm run simulate -- --police HARD --criminal EASY,NORMAL,HARD --rules standard --games 2000 [--seed 1] [--csv]
+ * --police / --criminal はカンマ区切り（省略すると全部の組み合わせ）
+ */
+
+const { values } = parseArgs({
+  options: {
+    police: { type: "string", default: Object.keys(POLICE_AI).join(",") },
+    criminal: { type: "string", default: Object.keys(CRIMINAL_AI).join(",") },
+    rules: { type: "string", default: "standard" },
+    games: { type: "string", default: "1000" },
+    seed: { type: "string", default: "1" },
+    csv: { type: "boolean", default: false },
+  },
+});
+
+function pick<T extends { id: string }>(registry: Record<string, T>, list: string, side: string): T[] {
+  return list.split(",").map((name) => {
+    const found = registry[name.trim().toUpperCase()];
+    if (!found) throw new Error(`${side}: ${name} という戦略はありません（${Object.keys(registry).join(" / ")}）`);
+    return found;
+  });
+}
+
+const rules = RULE_PRESETS.find((r) => r.id === values.rules);
+if (!rules) throw new Error(`ルール ${values.rules} はありません（${RULE_PRESETS.map((r) => r.id).join(" / ")}）`);
+
+const games = Number(values.games);
+const seed = Number(values.seed);
+if (!Number.isInteger(games) || games <= 0) throw new Error("--games は正の整数で指定してください");
+if (!Number.isInteger(seed)) throw new Error("--seed は整数で指定してください");
+
+const polices: PoliceStrategy[] = pick(POLICE_AI, values.police, "police");
+const criminals: CriminalStrategy[] = pick(CRIMINAL_AI, values.criminal, "criminal");
+
+const rows: MatchupSummary[] = [];
+for (const police of polices) {
+  for (const criminal of criminals) {
+    const t0 = Date.now();
+    rows.push(simulateMatchup(police, criminal, rules, games, seed));
+    if (!values.csv) console.error(`${police.id} vs ${criminal.id}: ${Date.now() - t0}ms`);
+  }
+}
+
+const turnHeaders = Array.from({ length: rules.maxTurn }, (_, i) => `T${i + 1}`);
+
+if (values.csv) {
+  console.log(["police", "criminal", "games", "police_wins", "police_win_rate", "mean_capture_turn", ...turnHeaders, "escaped"].join(","));
+  for (const row of rows) {
+    console.log(
+      [
+        row.police,
+        row.criminal,
+        row.games,
+        row.policeWins,
+        (row.policeWins / row.games).toFixed(4),
+        row.meanCaptureTurn?.toFixed(3) ?? "",
+        ...row.captures,
+        row.escaped,
+      ].join(",")
+    );
+  }
+} else {
+  // 確保ターンの分布は試合数に対する割合（%）で出す
+  const pct = (n: number, total: number) => `${((n / total) * 100).toFixed(1)}`;
+  const header = ["police", "criminal", "games", "win%", "meanT", ...turnHeaders, "esc"];
+  const body = rows.map((row) => [
+    row.police,
+    row.criminal,
+    String(row.games),
+    pct(row.policeWins, row.games),
+    row.meanCaptureTurn?.toFixed(2) ?? "-",
+    ...row.captures.map((n) => pct(n, row.games)),
+    pct(row.escaped, row.games),
+  ]);
+
+  const widths = header.map((h, i) => Math.max(h.length, ...body.map((cols) => cols[i].length)));
+  const line = (cols: string[]) => cols.map((c, i) => (i < 2 ? c.padEnd(widths[i]) : c.padStart(widths[i]))).join("  ");
+
+  console.log(`rules: ${rules.id} (${rules.size}x${rules.size}, ${rules.maxTurn}ターン) / seed ${seed}〜 / 分布は試合数に対する%`);
+  console.log(line(header));
+  for (const cols of body) console.log(line(cols));
+}